@@ -2,9 +2,22 @@
 // Temporal Drift Commands
 // ============================================================================
 
-import { Editor, MarkdownView, MarkdownFileInfo } from "obsidian";
+import { Editor, MarkdownView, MarkdownFileInfo, Notice } from "obsidian";
 import type TemporalDriftPlugin from "./main";
-import { formatTime, formatDate } from "./utils/time";
+import { formatTime, formatDate, getLogicalDate } from "./utils/time";
+import { diagnoseTimeline } from "./parser/timeline-diagnostics";
+import { TimelineDiagnosticsModal } from "./modals/timeline-diagnostics-modal";
+import { MigrationLogModal } from "./modals/migration-log-modal";
+import { LegacyNormalizationModal } from "./modals/legacy-normalization-modal";
+import { BackfillModal } from "./modals/backfill-modal";
+import { TaskCaptureModal } from "./modals/task-capture-modal";
+import { TaskPickerModal } from "./modals/task-picker-modal";
+import { JournalNormalizer } from "./services/journal-normalizer";
+import { RollupKind } from "./services/rollup";
+import { getDailyNotePath, isDailyNotePath } from "./utils/daily-note-path";
+import { parseInlineTask } from "./parser/inline-tasks";
+import { describeSession, reportTimerError } from "./services/task-timer";
+import { isClosedStatus } from "./utils/task-status";
 
 export function registerCommands(plugin: TemporalDriftPlugin): void {
   // Add inline note with timestamp
@@ -12,7 +25,7 @@ export function registerCommands(plugin: TemporalDriftPlugin): void {
     id: "add-inline-note",
     name: "Add inline note",
     editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
-      const time = formatTime(new Date());
+      const time = formatTime(new Date(), plugin.settings.timeFormat, plugin.settings.dayStartsAt);
       const cursor = editor.getCursor();
       const line = editor.getLine(cursor.line);
 
@@ -34,25 +47,15 @@ export function registerCommands(plugin: TemporalDriftPlugin): void {
     id: "quick-capture",
     name: "Quick capture",
     callback: async () => {
-      const today = formatDate(new Date());
-      const path = `${plugin.settings.dailyNotesFolder}/${today}.md`;
+      const today = formatDate(getLogicalDate(new Date(), plugin.settings.dayStartsAt));
+      const path = getDailyNotePath(plugin.settings, today);
 
       // Check if file exists
       let file = plugin.app.vault.getAbstractFileByPath(path);
       
       if (!file) {
         // Create the note
-        const time = formatTime(new Date());
-        const template = `# ${today}
-
-## Thankful for
-
-
-## Focus
-
-
-${time} `;
-        file = await plugin.app.vault.create(path, template);
+        file = await plugin.dailyNoteService.createDailyNote(today);
       }
 
       // Open the note
@@ -70,4 +73,229 @@ ${time} `;
       }
     },
   });
+
+  // Preview and apply the Temporal Drift format for the current daily note
+  plugin.addCommand({
+    id: "migrate-daily-note",
+    name: "Migrate daily note to Temporal Drift format",
+    checkCallback: (checking: boolean) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file || !isDailyNotePath(plugin.settings, file.path)) return false;
+      if (checking) return true;
+
+      void plugin.dailyNoteService.migrateDailyNote(file);
+      return true;
+    },
+  });
+
+  // Undo an earlier migration from the migration log
+  plugin.addCommand({
+    id: "undo-migration",
+    name: "Undo a daily note migration",
+    callback: async () => {
+      const records = await plugin.migrationLog.list();
+      if (records.length === 0) {
+        new Notice("Temporal Drift: no migrations to undo");
+        return;
+      }
+      new MigrationLogModal(plugin.app, records, (record) => {
+        void plugin.dailyNoteService.undoMigration(record);
+      }).open();
+    },
+  });
+
+  // Convert journals written before Temporal Drift (bold times, hour headings, ...)
+  plugin.addCommand({
+    id: "normalize-legacy-notes",
+    name: "Normalize legacy daily notes",
+    callback: async () => {
+      const normalizer = new JournalNormalizer(plugin.app, plugin.settings);
+      const { scanned, candidates } = await normalizer.scan();
+      if (candidates.length === 0) {
+        new Notice(`Temporal Drift: no legacy timestamps found in ${scanned} daily notes`);
+        return;
+      }
+      new LegacyNormalizationModal(plugin.app, normalizer, scanned, candidates).open();
+    },
+  });
+
+  // Create daily notes for a date range (planning ahead, forgotten days)
+  plugin.addCommand({
+    id: "create-daily-notes-for-range",
+    name: "Create daily notes for a date range",
+    callback: () => {
+      new BackfillModal(plugin.app, plugin.dailyNoteService, plugin.calendarService).open();
+    },
+  });
+
+  // Move old daily notes into Archive/YYYY
+  plugin.addCommand({
+    id: "archive-old-daily-notes",
+    name: "Archive old daily notes",
+    callback: async () => {
+      const files = plugin.dailyNoteArchive.findArchivable();
+      if (files.length === 0) {
+        new Notice(`Temporal Drift: no daily notes older than ${plugin.settings.archiveAfterDays} days`);
+        return;
+      }
+      const { moved, failed } = await plugin.dailyNoteArchive.archive(files);
+      new Notice(`Temporal Drift: archived ${moved} daily notes${failed > 0 ? `, failed ${failed}` : ""}`);
+    },
+  });
+
+  // Weekly/monthly rollups: regenerate the open rollup note, or the current period's
+  const writeRollup = async (kind: RollupKind) => {
+    const active = plugin.app.workspace.getActiveFile();
+    const fromActive = active ? plugin.rollupService.getPeriodForPath(active.path) : null;
+    const period =
+      fromActive?.kind === kind
+        ? fromActive
+        : plugin.rollupService.getPeriod(kind, getLogicalDate(new Date(), plugin.settings.dayStartsAt));
+
+    const file = await plugin.rollupService.writeRollup(period);
+    new Notice(`Temporal Drift: updated rollup for ${period.label}`);
+    await plugin.app.workspace.getLeaf(false).openFile(file);
+  };
+
+  plugin.addCommand({
+    id: "weekly-rollup",
+    name: "Create or update weekly rollup",
+    callback: () => writeRollup("week"),
+  });
+
+  plugin.addCommand({
+    id: "monthly-rollup",
+    name: "Create or update monthly rollup",
+    callback: () => writeRollup("month"),
+  });
+
+  // Capture a task from one line ("Send deck to Anna tomorrow !now #apollo")
+  plugin.addCommand({
+    id: "create-task",
+    name: "Create task",
+    callback: () => {
+      new TaskCaptureModal(plugin.app, plugin.taskIndex, plugin.settings).open();
+    },
+  });
+
+  // Turn the checkbox line under the cursor into a task note, leaving a link behind
+  plugin.addCommand({
+    id: "promote-inline-task",
+    name: "Promote inline task to task note",
+    editorCheckCallback: (checking: boolean, editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
+      const sourcePath = ctx.file?.path;
+      const lineNumber = editor.getCursor().line;
+      const line = editor.getLine(lineNumber);
+      const task = parseInlineTask(line, lineNumber);
+      if (!sourcePath || !task || sourcePath.startsWith(plugin.settings.tasksFolder)) return false;
+      if (plugin.taskIndex.isTaskNoteReference(task, sourcePath)) return false;
+      if (checking) return true;
+
+      void (async () => {
+        let file;
+        try {
+          file = await plugin.taskIndex.createTaskFromInline(task, sourcePath);
+        } catch (e) {
+          console.error("Temporal Drift: could not create task note", e);
+          new Notice(`Temporal Drift: could not create a task note for "${task.title}"`);
+          return;
+        }
+
+        // The line may have been edited while the note was created
+        if (editor.getLine(lineNumber) !== line) {
+          new Notice(`Temporal Drift: created "${file.basename}", the line changed so it was not linked`);
+          return;
+        }
+        const link = `[[${plugin.app.metadataCache.fileToLinktext(file, sourcePath)}]]`;
+        editor.replaceRange(
+          link,
+          { line: lineNumber, ch: task.textCh },
+          { line: lineNumber, ch: task.textCh + task.text.length }
+        );
+        new Notice(`Temporal Drift: created task note "${file.basename}"`);
+      })();
+      return true;
+    },
+  });
+
+  // Time the active task note, or pick one of the open task notes
+  plugin.addCommand({
+    id: "start-task-timer",
+    name: "Start task timer",
+    callback: () => {
+      const start = (path: string) => {
+        plugin.taskTimer
+          .start(path)
+          .then((stopped) => {
+            if (stopped) new Notice(describeSession(stopped));
+          })
+          .catch((e) => reportTimerError("start", e));
+      };
+
+      const active = plugin.app.workspace.getActiveFile();
+      const current = active ? plugin.taskIndex.getTask(active.path) : undefined;
+      if (current && !current.source) {
+        start(current.path);
+        return;
+      }
+
+      const tasks = plugin.taskIndex
+        .getAll()
+        .filter((t) => !t.source && !isClosedStatus(plugin.settings.taskStatuses, t.status))
+        .sort((a, b) => a.title.localeCompare(b.title));
+      new TaskPickerModal(plugin.app, tasks, "Choose a task to time", (task) => start(task.path)).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: "stop-task-timer",
+    name: "Stop task timer",
+    checkCallback: (checking: boolean) => {
+      if (!plugin.taskTimer.getActive()) return false;
+      if (checking) return true;
+      plugin.taskTimer
+        .stop()
+        .then((session) => {
+          if (session) new Notice(describeSession(session));
+        })
+        .catch((e) => reportTimerError("stop", e));
+      return true;
+    },
+  });
+
+  // How long the task index took to load, and how much came from its cache
+  plugin.addCommand({
+    id: "task-index-stats",
+    name: "Show task index statistics",
+    callback: () => {
+      const m = plugin.taskIndex.getMetrics();
+      if (!m) {
+        new Notice("Temporal Drift: the task index is still loading");
+        return;
+      }
+      const source = m.source === "cache" ? `cache (${m.cacheLoadMs}ms) + ${m.indexMs}ms to update` : `full build in ${m.indexMs}ms`;
+      new Notice(
+        `Temporal Drift: ${m.tasks} tasks from ${source}. ` +
+          `Notes indexed: ${m.filesIndexed}, reused: ${m.filesReused}, removed: ${m.filesRemoved}`
+      );
+    },
+  });
+
+  // Validate the current daily note's timeline and offer a chronological sort
+  plugin.addCommand({
+    id: "check-timeline",
+    name: "Check and repair timeline",
+    checkCallback: (checking: boolean) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file || !isDailyNotePath(plugin.settings, file.path)) return false;
+      if (checking) return true;
+
+      void (async () => {
+        const content = await plugin.app.vault.read(file);
+        const diagnostics = diagnoseTimeline(content, plugin.settings.dayStartsAt, plugin.settings.sections);
+        new TimelineDiagnosticsModal(plugin.app, file, diagnostics, plugin.settings.sections).open();
+      })();
+      return true;
+    },
+  });
 }
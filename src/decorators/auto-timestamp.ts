@@ -7,6 +7,8 @@ import { keymap, EditorView } from "@codemirror/view";
 import { editorInfoField } from "obsidian";
 import { TemporalDriftSettings } from "../types";
 import { formatTime } from "../utils/time";
+import { isTimeLine } from "../parser/daily-note-parser";
+import { isDailyNotePath } from "../utils/daily-note-path";
 
 /**
  * Creates a CodeMirror extension that auto-inserts timestamps on Enter
@@ -21,8 +23,8 @@ export function createAutoTimestampExtension(settings: TemporalDriftSettings): E
         const editorInfo = view.state.field(editorInfoField, false);
         const file = editorInfo?.file;
 
-        // Only apply in daily notes folder
-        if (!file?.path.startsWith(settings.dailyNotesFolder)) {
+        // Only apply in daily notes
+        if (!file || !isDailyNotePath(settings, file.path)) {
           return false; // Let default handler run
         }
 
@@ -30,13 +32,11 @@ export function createAutoTimestampExtension(settings: TemporalDriftSettings): E
         const line = view.state.doc.lineAt(cursor);
         const lineText = line.text;
 
-        // Check if current line starts with a time pattern (HH:mm)
+        // Check if current line starts with a timestamp (any supported format)
         // No regex lookbehind for iOS compatibility
-        const timeMatch = lineText.match(/^(\d{2}):(\d{2})/);
-
-        if (timeMatch) {
+        if (isTimeLine(lineText)) {
           // User is on a time-stamped line, insert new timestamp
-          const time = formatTime(new Date());
+          const time = formatTime(new Date(), settings.timeFormat, settings.dayStartsAt);
           const insert = `\n\n${time} `;
 
           view.dispatch({
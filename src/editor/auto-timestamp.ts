@@ -2,7 +2,7 @@
 // Auto-Timestamp Editor Extension (CodeMirror)
 //
 // Phase 1: When pressing Enter at the end of a time-stamped line (HH:mm ...),
-// insert a new blank line + the current time.
+// insert a new blank line + the current time in the configured time format.
 //
 // Markdown remains source of truth; this only inserts valid markdown text.
 // ============================================================================
@@ -12,6 +12,8 @@ import { keymap, EditorView } from "@codemirror/view";
 import { editorInfoField } from "obsidian";
 import { TemporalDriftSettings } from "../types";
 import { formatTime } from "../utils/time";
+import { isTimeLine } from "../parser/daily-note-parser";
+import { isDailyNotePath } from "../utils/daily-note-path";
 
 export function createAutoTimestampExtension(settings: TemporalDriftSettings): Extension {
   return keymap.of([
@@ -27,8 +29,8 @@ export function createAutoTimestampExtension(settings: TemporalDriftSettings): E
           return false;
         }
 
-        // Only apply inside the daily notes folder
-        if (!file?.path || !file.path.startsWith(settings.dailyNotesFolder)) {
+        // Only apply in daily notes
+        if (!file?.path || !isDailyNotePath(settings, file.path)) {
           return false;
         }
 
@@ -43,12 +45,11 @@ export function createAutoTimestampExtension(settings: TemporalDriftSettings): E
 
         // Must be a time-stamped line
         // No regex lookbehind for iOS compatibility
-        const timeMatch = line.text.match(/^(\d{2}):(\d{2})\b/);
-        if (!timeMatch) {
+        if (!isTimeLine(line.text)) {
           return false;
         }
 
-        const time = formatTime(new Date());
+        const time = formatTime(new Date(), settings.timeFormat, settings.dayStartsAt);
         const insert = `\n\n${time} `;
 
         view.dispatch({
@@ -18,6 +18,9 @@ import { RangeSetBuilder, Extension } from "@codemirror/state";
 import { syntaxTree } from "@codemirror/language";
 import { editorInfoField } from "obsidian";
 import { TemporalDriftSettings } from "../types";
+import { parseDailyNote } from "../parser/daily-note-parser";
+import { isDailyNotePath } from "../utils/daily-note-path";
+import { isClosedStatus } from "../utils/task-status";
 
 // ============================================================================
 // Decoration Styles
@@ -28,13 +31,21 @@ const timeDecoration = Decoration.mark({
   attributes: { "data-type": "time" },
 });
 
-const taskOpenDecoration = Decoration.mark({
-  class: "td-task td-task-open",
-});
-
-const taskDoneDecoration = Decoration.mark({
-  class: "td-task td-task-done",
-});
+// One mark per status, so themes can style "in progress" or "cancelled" tasks
+const taskDecorations = new Map<string, Decoration>();
+
+function taskDecoration(status: string, closed: boolean): Decoration {
+  const key = `${status}:${closed}`;
+  let decoration = taskDecorations.get(key);
+  if (!decoration) {
+    decoration = Decoration.mark({
+      class: closed ? "td-task td-task-done" : "td-task td-task-open",
+      attributes: { "data-status": status },
+    });
+    taskDecorations.set(key, decoration);
+  }
+  return decoration;
+}
 
 const eventDecoration = Decoration.mark({
   class: "td-event",
@@ -55,48 +66,28 @@ function buildDecorations(view: EditorView, settings: TemporalDriftSettings): De
   const editorInfo = view.state.field(editorInfoField, false);
   const file = editorInfo?.file;
   
-  if (!file?.path.startsWith(settings.dailyNotesFolder)) {
+  if (!file || !isDailyNotePath(settings, file.path)) {
     return builder.finish();
   }
 
-  const doc = view.state.doc;
-  
-  for (let i = 1; i <= doc.lines; i++) {
-    const line = doc.line(i);
-    const text = line.text;
-    
-    // Match time entries: HH:MM at start of line
-    const timeMatch = text.match(/^(\d{2}:\d{2})\s+(.*)$/);
-    
-    if (timeMatch) {
-      const timeStart = line.from;
-      const timeEnd = line.from + timeMatch[1].length;
-      const contentStart = timeEnd + 1; // after space
-      const contentEnd = line.to;
-      
-      // Decorate the time
-      builder.add(timeStart, timeEnd, timeDecoration);
-      
-      // Parse and decorate the content
-      const content = timeMatch[2];
-      
-      // Task: - [ ] or - [x]
-      const taskMatch = content.match(/^-\s*\[\s*([xX ]?)\s*\]\s*(.*)$/);
-      if (taskMatch) {
-        const isDone = taskMatch[1].toLowerCase() === "x";
-        builder.add(contentStart, contentEnd, isDone ? taskDoneDecoration : taskOpenDecoration);
-        continue;
-      }
-      
-      // Event: [[Title ~eventId]]
-      const eventMatch = content.match(/^\[\[([^~\]]+)\s*~([^\]]+)\]\]/);
-      if (eventMatch) {
-        builder.add(contentStart, contentEnd, eventDecoration);
-        continue;
-      }
-      
-      // Regular note
-      builder.add(contentStart, contentEnd, noteDecoration);
+  const { entries } = parseDailyNote(view.state.doc.toString(), settings.sections, settings.taskStatuses);
+
+  for (const entry of entries) {
+    const headLineTo = view.state.doc.lineAt(entry.from).to;
+
+    // Decorate the time
+    builder.add(entry.timeFrom, entry.timeTo, timeDecoration);
+
+    if (entry.headFrom >= headLineTo) continue;
+
+    // Decorate the content by entry type
+    if (entry.type === "task") {
+      const status = entry.status ?? "";
+      builder.add(entry.headFrom, headLineTo, taskDecoration(status, isClosedStatus(settings.taskStatuses, status)));
+    } else if (entry.type === "event") {
+      builder.add(entry.headFrom, headLineTo, eventDecoration);
+    } else {
+      builder.add(entry.headFrom, headLineTo, noteDecoration);
     }
   }
   
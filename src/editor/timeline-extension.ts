@@ -13,8 +13,8 @@ import {
 import { Extension, RangeSetBuilder } from "@codemirror/state";
 import { editorInfoField } from "obsidian";
 import { TemporalDriftSettings } from "../types";
-
-const TIMESTAMP_REGEX = /^(\d{2}):(\d{2})\b/;
+import { parseTimeLine } from "../parser/daily-note-parser";
+import { isDailyNotePath } from "../utils/daily-note-path";
 
 const timestampMark = Decoration.mark({
   class: "td-timestamp",
@@ -36,7 +36,7 @@ function buildDecorations(view: EditorView, settings: TemporalDriftSettings): De
   }
 
   // Only apply to daily notes
-  if (!filePath || !filePath.startsWith(settings.dailyNotesFolder)) {
+  if (!filePath || !isDailyNotePath(settings, filePath)) {
     return Decoration.none;
   }
 
@@ -49,9 +49,9 @@ function buildDecorations(view: EditorView, settings: TemporalDriftSettings): De
       const line = view.state.doc.lineAt(pos);
       if (line.from > to) break;
 
-      const match = line.text.match(TIMESTAMP_REGEX);
-      if (match) {
-        builder.add(line.from, line.from + 5, timestampMark);
+      const parsed = parseTimeLine(line.text);
+      if (parsed) {
+        builder.add(line.from + parsed.timeStart, line.from + parsed.timeEnd, timestampMark);
       }
 
       pos = line.to + 1;
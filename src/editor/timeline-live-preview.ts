@@ -5,10 +5,10 @@
 // prototype-style cards.
 //
 // Markdown-first: underlying text remains valid markdown.
-// Performance: only scan visibleRanges.
+// Performance: only entries within visibleRanges get widgets.
 // ============================================================================
 
-import { Extension, RangeSetBuilder } from "@codemirror/state";
+import { Extension, RangeSetBuilder, StateEffect } from "@codemirror/state";
 import {
   Decoration,
   DecorationSet,
@@ -17,58 +17,15 @@ import {
   ViewUpdate,
   WidgetType,
 } from "@codemirror/view";
-import { editorInfoField, editorLivePreviewField, normalizePath } from "obsidian";
-import { TemporalDriftSettings } from "../types";
-
-type Participant = { target: string; display: string };
-
-type TimelineEntry = {
-  from: number; // doc offset start of block
-  to: number; // doc offset end of block
-  lineFrom: number; // doc offset start of the timestamp line
-  time: string; // HH:mm
-  title: string;
-  locationText: string;
-  participants: Participant[];
-  bodyLines: string[]; // indented children (trimmed)
-  raw: string; // for widget equality
-};
-
-// Allow optional list markers (e.g. "- 12:00 ...") and optional leading spaces.
-const TIME_LINE_RE = /^\s*(?:[-*+]\s+)?(\d{2}):(\d{2})\s+(.*)$/;
-const IS_TIME_LINE = (text: string) => /^\s*(?:[-*+]\s+)?\d{2}:\d{2}\s/.test(text);
-
-function stripEventIdSuffix(title: string): string {
-  return title.replace(/\s*~[a-zA-Z0-9]+$/, "").trim();
-}
-
-function parseWikilinkDisplay(raw: string): { target: string; display: string } {
-  const match = raw.match(/^([^|]+)(?:\|(.+))?$/);
-  const target = (match?.[1] ?? raw).trim();
-  const display = (match?.[2] ?? target.split("/").pop() ?? target).trim();
-  return { target, display };
-}
-
-function stripWikilinks(text: string): string {
-  return text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_m, p1: string, p2: string | undefined) => {
-    const display = (p2 ?? p1.split("/").pop() ?? p1).trim();
-    return display;
-  });
-}
+import { editorInfoField, editorLivePreviewField } from "obsidian";
+import { CalendarEvent, TemporalDriftSettings, TimeFormat, TimelineEntry } from "../types";
+import { applyCalendarDurations, parseDailyNote, stripWikilinks } from "../parser/daily-note-parser";
+import { CalendarService } from "../services/calendar";
+import { formatDuration, formatTimeString, parseDate } from "../utils/time";
+import { getDailyNoteDate, isDailyNotePath } from "../utils/daily-note-path";
 
-function extractPrimaryLink(head: string): { target: string; display: string } | null {
-  const m = head.match(/\[\[([^\]]+)\]\]/);
-  if (!m) return null;
-  return parseWikilinkDisplay(m[1]);
-}
-
-function extractParticipants(head: string): Participant[] {
-  const withIdx = head.indexOf(" with ");
-  if (withIdx < 0) return [];
-  const tail = head.slice(withIdx + " with ".length);
-  const matches = Array.from(tail.matchAll(/\[\[([^\]]+)\]\]/g));
-  return matches.map((m) => parseWikilinkDisplay(m[1]));
-}
+// Dispatched once calendar events for the note's date have been fetched
+const calendarEventsLoaded = StateEffect.define<null>();
 
 function getInitials(name: string): string {
   const cleaned = name.replace(/\[\[|\]\]/g, "").trim();
@@ -79,12 +36,12 @@ function getInitials(name: string): string {
 }
 
 class TimelineCardWidget extends WidgetType {
-  constructor(private entry: TimelineEntry) {
+  constructor(private entry: TimelineEntry, private raw: string, private timeFormat: TimeFormat) {
     super();
   }
 
   eq(other: TimelineCardWidget): boolean {
-    return this.entry.raw === other.entry.raw;
+    return this.raw === other.raw && this.entry.duration === other.entry.duration;
   }
 
   toDOM(view: EditorView): HTMLElement {
@@ -96,7 +53,7 @@ class TimelineCardWidget extends WidgetType {
 
     const timeEl = document.createElement("div");
     timeEl.className = "hour-time";
-    timeEl.textContent = this.entry.time;
+    timeEl.textContent = formatTimeString(this.entry.time, this.timeFormat);
 
     const slot = document.createElement("div");
     slot.className = "hour-slot";
@@ -125,7 +82,7 @@ class TimelineCardWidget extends WidgetType {
     right.className = "event-right";
     const duration = document.createElement("span");
     duration.className = "event-duration";
-    duration.textContent = "";
+    duration.textContent = formatDuration(this.entry.duration ?? 0);
     right.appendChild(duration);
 
     top.appendChild(left);
@@ -151,7 +108,7 @@ class TimelineCardWidget extends WidgetType {
         a.addEventListener("click", (e) => {
           e.preventDefault();
           e.stopPropagation();
-          view.dispatch({ selection: { anchor: this.entry.lineFrom } });
+          view.dispatch({ selection: { anchor: this.entry.from } });
           view.focus();
         });
 
@@ -161,13 +118,13 @@ class TimelineCardWidget extends WidgetType {
       card.appendChild(pWrap);
     }
 
-    if (this.entry.bodyLines.length > 0) {
+    if (this.entry.body.length > 0) {
       const body = document.createElement("div");
       body.className = "event-body";
 
       const pre = document.createElement("div");
       pre.className = "event-body-text";
-      pre.textContent = this.entry.bodyLines
+      pre.textContent = this.entry.body
         .filter((l) => l.trim().length > 0)
         .slice(0, 6)
         .map(stripWikilinks)
@@ -186,7 +143,7 @@ class TimelineCardWidget extends WidgetType {
 
     root.addEventListener("click", (e) => {
       e.preventDefault();
-      view.dispatch({ selection: { anchor: this.entry.lineFrom } });
+      view.dispatch({ selection: { anchor: this.entry.from } });
       view.focus();
     });
 
@@ -194,153 +151,87 @@ class TimelineCardWidget extends WidgetType {
   }
 }
 
-function buildEntries(view: EditorView): TimelineEntry[] {
-  const doc = view.state.doc;
-  const entries: TimelineEntry[] = [];
-
-  // De-dupe lines across overlapping visibleRanges
-  const seenLineFrom = new Set<number>();
-
-  for (const { from, to } of view.visibleRanges) {
-    let pos = from;
+function buildEntries(view: EditorView, settings: TemporalDriftSettings, events: CalendarEvent[]): TimelineEntry[] {
+  const entries = parseDailyNote(view.state.doc.toString(), settings.sections, settings.taskStatuses).entries;
+  applyCalendarDurations(entries, events);
 
-    while (pos <= to) {
-      const line = doc.lineAt(pos);
-      if (line.from > to) break;
-
-      if (seenLineFrom.has(line.from)) {
-        pos = line.to + 1;
-        continue;
-      }
-      seenLineFrom.add(line.from);
-
-      const m = line.text.match(TIME_LINE_RE);
-      if (!m) {
-        pos = line.to + 1;
-        continue;
-      }
-
-      const time = `${m[1]}:${m[2]}`;
-      const head = (m[3] ?? "").trim();
-
-      const bodyLines: string[] = [];
-      let endLineNo = line.number;
-
-      for (let ln = line.number + 1; ln <= doc.lines; ln++) {
-        const next = doc.line(ln);
-        const text = next.text;
-
-        if (IS_TIME_LINE(text)) break;
-        if (/^##/.test(text)) break;
-
-        if (text.trim() === "") {
-          bodyLines.push("");
-          endLineNo = ln;
-          continue;
-        }
-
-        if (!/^\s+/.test(text)) break;
-
-        bodyLines.push(text.replace(/^\s+/, ""));
-        endLineNo = ln;
-      }
-
-      const endLine = doc.line(endLineNo);
-
-      const primary = extractPrimaryLink(head);
-      const participants = extractParticipants(head);
-
-      const title = (() => {
-        if (primary) return stripEventIdSuffix(primary.display);
-        const plain = head.split(" with ")[0];
-        return stripEventIdSuffix(stripWikilinks(plain || "(empty)"));
-      })();
-
-      const locationText = (() => {
-        let t = head;
-        t = t.replace(/^\s*\[\[[^\]]+\]\]\s*/, "");
-        const withIdx = t.indexOf(" with ");
-        if (withIdx >= 0) t = t.slice(0, withIdx);
-        return stripWikilinks(t).trim();
-      })();
-
-      const raw = [line.text, ...bodyLines].join("\n");
-
-      entries.push({
-        from: line.from,
-        to: endLine.to,
-        lineFrom: line.from,
-        time,
-        title,
-        locationText,
-        participants,
-        bodyLines,
-        raw,
-      });
-
-      pos = endLine.to + 1;
-    }
-  }
-
-  return entries;
+  // Only entries touching the viewport (visibleRanges may overlap)
+  return entries.filter((entry) =>
+    view.visibleRanges.some(({ from, to }) => entry.to >= from && entry.from <= to)
+  );
 }
 
-function buildDecorations(view: EditorView, settings: TemporalDriftSettings): DecorationSet {
+function buildDecorations(
+  view: EditorView,
+  settings: TemporalDriftSettings,
+  events: CalendarEvent[]
+): DecorationSet {
   // Only in Live Preview (editor)
   const isLiveField = view.state.field(editorLivePreviewField, false);
   const isLiveDom = !!view.dom.closest(".markdown-source-view.is-live-preview");
   const isLive = isLiveField || isLiveDom;
 
-  // NOTE: keep these logs for now; remove once verified.
-  // eslint-disable-next-line no-console
-  console.log("[TD] buildDecorations called", { isLiveField, isLiveDom, isLive });
-
   if (!isLive) return Decoration.none;
 
   // Only in daily notes
   const editorInfo = view.state.field(editorInfoField, false);
   const file = editorInfo?.file;
-  const folderPrefix = normalizePath(settings.dailyNotesFolder + "/");
-  const filePath = file?.path ? normalizePath(file.path) : "";
-
-  // eslint-disable-next-line no-console
-  console.log("[TD] file/folder", { filePath, folderPrefix });
+  const filePath = file?.path ?? "";
 
-  if (!filePath || !filePath.startsWith(folderPrefix)) return Decoration.none;
+  if (!filePath || !isDailyNotePath(settings, filePath)) return Decoration.none;
 
-  const entries = buildEntries(view);
-
-  // eslint-disable-next-line no-console
-  console.log("[TD] entries", entries.length);
+  const entries = buildEntries(view, settings, events);
 
   if (entries.length === 0) return Decoration.none;
 
-  entries.sort((a, b) => a.from - b.from);
-
   const builder = new RangeSetBuilder<Decoration>();
 
   for (const entry of entries) {
-    builder.add(entry.from, entry.to, Decoration.replace({ widget: new TimelineCardWidget(entry), block: true }));
+    const raw = view.state.doc.sliceString(entry.from, entry.to);
+    builder.add(entry.from, entry.to, Decoration.replace({ widget: new TimelineCardWidget(entry, raw, settings.timeFormat), block: true }));
   }
 
   return builder.finish();
 }
 
-function createTimelineLivePreview(settings: TemporalDriftSettings): Extension {
+function createTimelineLivePreview(settings: TemporalDriftSettings, calendarService?: CalendarService): Extension {
   return ViewPlugin.fromClass(
     class TimelineLivePreviewPlugin {
       decorations: DecorationSet;
+      private events: CalendarEvent[] = [];
+      private destroyed = false;
 
       constructor(view: EditorView) {
         // Build once on init as well (needed when opening a note without typing)
-        this.decorations = buildDecorations(view, settings);
+        this.decorations = buildDecorations(view, settings, this.events);
+        void this.loadEvents(view);
       }
 
       update(update: ViewUpdate): void {
-        if (update.docChanged || update.viewportChanged) {
-          this.decorations = buildDecorations(update.view, settings);
+        const eventsLoaded = update.transactions.some((tr) => tr.effects.some((e) => e.is(calendarEventsLoaded)));
+        if (update.docChanged || update.viewportChanged || eventsLoaded) {
+          this.decorations = buildDecorations(update.view, settings, this.events);
         }
       }
+
+      destroy(): void {
+        this.destroyed = true;
+      }
+
+      // Calendar events give meetings their real duration (see applyCalendarDurations)
+      private async loadEvents(view: EditorView): Promise<void> {
+        if (!calendarService) return;
+
+        const file = view.state.field(editorInfoField, false)?.file;
+        const date = file ? getDailyNoteDate(settings, file.path) : null;
+        if (!date) return;
+
+        const events = await calendarService.getEventsForDate(parseDate(date));
+        if (this.destroyed || events.length === 0) return;
+
+        this.events = events;
+        view.dispatch({ effects: calendarEventsLoaded.of(null) });
+      }
     },
     {
       decorations: (v) => v.decorations,
@@ -351,9 +242,11 @@ function createTimelineLivePreview(settings: TemporalDriftSettings): Extension {
 export class TimelineLivePreviewExtension {
   private extension: Extension[] = [];
   private settings: TemporalDriftSettings;
+  private calendarService?: CalendarService;
 
-  constructor(settings: TemporalDriftSettings) {
+  constructor(settings: TemporalDriftSettings, calendarService?: CalendarService) {
     this.settings = settings;
+    this.calendarService = calendarService;
     this.rebuild();
   }
 
@@ -368,6 +261,6 @@ export class TimelineLivePreviewExtension {
 
   private rebuild(): void {
     this.extension.length = 0;
-    this.extension.push(createTimelineLivePreview(this.settings));
+    this.extension.push(createTimelineLivePreview(this.settings, this.calendarService));
   }
 }
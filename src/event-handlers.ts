@@ -3,7 +3,6 @@
 // ============================================================================
 
 import { Plugin } from "obsidian";
-import { formatDate, formatTime } from "./utils/time";
 import { DailyNoteService } from "./services/daily-note";
 
 /**
@@ -40,10 +39,8 @@ export function registerProtocolHandlers(
 
         case "add-entry":
           if (text) {
-            const today = formatDate(new Date());
-            const time = formatTime(new Date());
-            await dailyNoteService.appendEntry(today, time, text);
-            await dailyNoteService.openDailyNote(today);
+            const line = await dailyNoteService.addCurrentEntry(text);
+            await dailyNoteService.openDailyNote(dailyNoteService.getToday(), line);
           }
           break;
 
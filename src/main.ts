@@ -5,16 +5,33 @@
 import { Plugin, MarkdownView, Notice, TFile, normalizePath } from "obsidian";
 import { Extension } from "@codemirror/state";
 
-import { DEFAULT_SETTINGS, TemporalDriftSettings } from "./types";
+import { DEFAULT_SETTINGS, TaskStatusConfig, TemporalDriftSettings } from "./types";
 import { TemporalDriftSettingTab } from "./settings";
 import { TimelineExtension } from "./editor/timeline-extension";
 import { TimelineLivePreviewExtension } from "./editor/timeline-live-preview";
 import { AutoTimestampExtension } from "./editor/auto-timestamp";
 import { registerCommands } from "./commands";
-import { formatDate, formatTime } from "./utils/time";
+import { formatDate, formatTime, getLogicalDate } from "./utils/time";
+import { getDailyNotePath, isDailyNotePath } from "./utils/daily-note-path";
 import { TemporalDriftView, VIEW_TYPE_TEMPORAL_DRIFT } from "./views/TemporalDriftView";
+import { TaskSidebarView, VIEW_TYPE_TASK_SIDEBAR } from "./views/task-sidebar-view";
 import { registerTimelinePostProcessor } from "./preview/timeline-postprocessor";
+import { registerTaskQueryBlock } from "./preview/task-query-block";
 import { registerOpenTrigger } from "./automation/open-trigger";
+import { CalendarService } from "./services/calendar";
+import { DailyNoteService } from "./services/daily-note";
+import { TaskIndexService } from "./services/task-index";
+import { MigrationLog } from "./services/migration-log";
+import { RollupService } from "./services/rollup";
+import { DailyNoteArchive } from "./services/daily-note-archive";
+import { CompletionLog } from "./services/completion-log";
+import { TaskTimer, describeSession, reportTimerError } from "./services/task-timer";
+
+// data.json as older versions saved it: the day sections were two toggles
+interface StoredSettings extends Partial<TemporalDriftSettings> {
+  showThankful?: boolean;
+  showFocus?: boolean;
+}
 
 export default class TemporalDriftPlugin extends Plugin {
   settings: TemporalDriftSettings = DEFAULT_SETTINGS;
@@ -22,6 +39,15 @@ export default class TemporalDriftPlugin extends Plugin {
   // Last daily note the user was looking at (used when opening the custom view)
   lastActiveDailyNotePath: string | null = null;
 
+  calendarService!: CalendarService;
+  taskIndex!: TaskIndexService;
+  dailyNoteService!: DailyNoteService;
+  migrationLog!: MigrationLog;
+  rollupService!: RollupService;
+  dailyNoteArchive!: DailyNoteArchive;
+  completionLog!: CompletionLog;
+  taskTimer!: TaskTimer;
+
   private autoTimestamp: AutoTimestampExtension | null = null;
   private timeline: TimelineExtension | null = null;
   private timelineLivePreview: TimelineLivePreviewExtension | null = null;
@@ -32,10 +58,37 @@ export default class TemporalDriftPlugin extends Plugin {
     // Load settings
     await this.loadSettings();
 
+    // Initialize services
+    this.calendarService = new CalendarService(this.app, this.settings);
+    this.taskIndex = new TaskIndexService(
+      this.app,
+      this.settings,
+      normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}/task-index.json`)
+    );
+    this.migrationLog = new MigrationLog(
+      this.app,
+      normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}/migration-log.json`)
+    );
+    this.dailyNoteService = new DailyNoteService(this.app, this.settings, this.taskIndex, this.migrationLog);
+    this.rollupService = new RollupService(this.app, this.settings);
+    this.registerTaskIndexEvents();
+    this.dailyNoteArchive = new DailyNoteArchive(this.app, this.settings);
+    this.completionLog = new CompletionLog(this.app, this.settings, this.taskIndex, this.dailyNoteService);
+    this.taskTimer = new TaskTimer(
+      this.app,
+      this.settings,
+      this.taskIndex,
+      this.dailyNoteService,
+      normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}/task-timer.json`)
+    );
+    this.registerTaskTimer();
+    this.registerAutoRollups();
+    this.registerAutoArchive();
+
     // Initialize extensions
     this.autoTimestamp = new AutoTimestampExtension(this.settings);
     this.timeline = new TimelineExtension(this.settings);
-    this.timelineLivePreview = new TimelineLivePreviewExtension(this.settings);
+    this.timelineLivePreview = new TimelineLivePreviewExtension(this.settings, this.calendarService);
 
     // Register CM6 extensions (raw editor mode)
     this.registerEditorExtension(this.buildEditorExtensions());
@@ -43,9 +96,18 @@ export default class TemporalDriftPlugin extends Plugin {
     // Register Temporal Drift custom view (legacy)
     this.registerView(VIEW_TYPE_TEMPORAL_DRIFT, (leaf) => new TemporalDriftView(leaf, this));
 
+    // Now/Next/Later task sidebar
+    this.registerView(
+      VIEW_TYPE_TASK_SIDEBAR,
+      (leaf) => new TaskSidebarView(leaf, this.app, this.settings, this.taskIndex, this.taskTimer)
+    );
+
     // Reading view (Preview) renderer for timeline cards
     registerTimelinePostProcessor(this);
 
+    // Live task lists: ```temporal-drift-tasks``` code blocks
+    registerTaskQueryBlock(this);
+
     // Reliable remote file open trigger (bypasses Quick Switcher + obsidian://open flakiness)
     // External automation writes a vault-relative path into this file.
     // NOTE: Do NOT place this under `.obsidian/` — Obsidian sometimes ignores that folder for vault file events.
@@ -57,9 +119,7 @@ export default class TemporalDriftPlugin extends Plugin {
     // Track last active daily note (so the ItemView can open the correct date)
     const maybeRememberDailyNote = (file: any) => {
       if (!file || typeof file.path !== "string") return;
-      const prefix = `${this.settings.dailyNotesFolder}/`;
-      if (!file.path.startsWith(prefix)) return;
-      if (!/^\d{4}-\d{2}-\d{2}\.md$/.test(file.name)) return;
+      if (!isDailyNotePath(this.settings, file.path)) return;
       this.lastActiveDailyNotePath = file.path;
     };
 
@@ -139,12 +199,20 @@ export default class TemporalDriftPlugin extends Plugin {
       await this.activateView();
     });
 
+    this.addCommand({
+      id: "open-task-sidebar",
+      name: "Open task sidebar",
+      callback: async () => {
+        await this.activateTaskSidebar();
+      },
+    });
+
     // Quick add timestamp command
     this.addCommand({
       id: "add-timestamp",
       name: "Add timestamp at cursor",
       editorCallback: (editor) => {
-        const timestamp = `${formatTime(new Date())} `;
+        const timestamp = `${formatTime(new Date(), this.settings.timeFormat, this.settings.dayStartsAt)} `;
         editor.replaceSelection(timestamp);
       },
     });
@@ -157,6 +225,122 @@ export default class TemporalDriftPlugin extends Plugin {
     });
   }
 
+  /**
+   * Load the task index once the vault is loaded and keep it in sync
+   */
+  private registerTaskIndexEvents(): void {
+    this.app.workspace.onLayoutReady(() => {
+      void this.taskIndex.loadIndex();
+    });
+
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file, data) => {
+        void this.taskIndex.onFileModify(file, data);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        if (file instanceof TFile) this.taskIndex.onFileDelete(file);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) void this.taskIndex.onFileRename(file, oldPath);
+      })
+    );
+    this.registerEvent(
+      this.taskIndex.on("status-changed", (path, previous, status, completed) => {
+        this.completionLog
+          .onStatusChanged(path, previous, status, completed)
+          .catch((e) => {
+            console.error("Temporal Drift: could not log the completion", e);
+            new Notice("Temporal Drift: could not log the task completion");
+          });
+      })
+    );
+  }
+
+  /**
+   * Restore the running task timer and show it in the status bar
+   * ("⏱ 0:42:10 Write report"); clicking the item stops the timer
+   */
+  private registerTaskTimer(): void {
+    void this.taskTimer.load();
+
+    const statusEl = this.addStatusBarItem();
+    statusEl.addClass("temporal-drift-timer-status");
+    statusEl.setAttribute("aria-label", "Stop task timer");
+    statusEl.addEventListener("click", () => {
+      this.taskTimer
+        .stop()
+        .then((session) => {
+          if (session) new Notice(describeSession(session));
+        })
+        .catch((e) => reportTimerError("stop", e));
+    });
+
+    const update = () => {
+      const active = this.taskTimer.getActive();
+      statusEl.toggle(!!active);
+      if (!active) return;
+
+      const seconds = Math.max(0, Math.floor(((active.end ?? Date.now()) - active.start) / 1000));
+      const h = Math.floor(seconds / 3600);
+      const m = String(Math.floor(seconds / 60) % 60).padStart(2, "0");
+      const s = String(seconds % 60).padStart(2, "0");
+      const title = this.taskIndex.getTask(active.path)?.title ?? active.path.split("/").pop()!.replace(/\.md$/, "");
+      statusEl.setText(`⏱ ${h}:${m}:${s} ${title}`);
+    };
+
+    update();
+    this.registerEvent(this.taskTimer.on("changed", update));
+    this.registerInterval(window.setInterval(update, 1000));
+
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) void this.taskTimer.onFileRename(file, oldPath);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        if (file instanceof TFile) void this.taskTimer.onFileDelete(file);
+      })
+    );
+  }
+
+  /**
+   * Create last week's/month's rollup once it is over (checked at startup and hourly)
+   */
+  private registerAutoRollups(): void {
+    const check = () => {
+      if (!this.settings.autoCreateRollups) return;
+      this.rollupService.createMissingRollups().catch((e) => console.error("Temporal Drift: rollup failed", e));
+    };
+
+    this.app.workspace.onLayoutReady(check);
+    this.registerInterval(window.setInterval(check, 60 * 60 * 1000));
+  }
+
+  /**
+   * Archive old daily notes (checked at startup and daily)
+   */
+  private registerAutoArchive(): void {
+    const check = () => {
+      if (!this.settings.autoArchive) return;
+      this.dailyNoteArchive
+        .archiveOldNotes()
+        .then(({ moved, failed }) => {
+          if (moved > 0 || failed > 0) {
+            new Notice(`Temporal Drift: archived ${moved} daily notes${failed > 0 ? `, failed ${failed}` : ""}`);
+          }
+        })
+        .catch((e) => console.error("Temporal Drift: archiving failed", e));
+    };
+
+    this.app.workspace.onLayoutReady(check);
+    this.registerInterval(window.setInterval(check, 24 * 60 * 60 * 1000));
+  }
+
   buildEditorExtensions(): Extension[] {
     const extensions: Extension[] = [];
 
@@ -177,39 +361,52 @@ export default class TemporalDriftPlugin extends Plugin {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data = (await this.loadData()) as StoredSettings | null;
+    const { showThankful, showFocus, ...saved } = data ?? {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, saved);
+
+    // Sections used to be two toggles; copy the defaults so edits never touch DEFAULT_SETTINGS
+    if (!saved.sections) {
+      const [thankful, focus] = DEFAULT_SETTINGS.sections;
+      this.settings.sections = [
+        ...(showThankful === false ? [] : [{ ...thankful }]),
+        ...(showFocus === false ? [] : [{ ...focus }]),
+      ];
+    }
+    this.settings.taskStatuses = (saved.taskStatuses ?? DEFAULT_SETTINGS.taskStatuses).map((s: TaskStatusConfig) => ({
+      ...s,
+    }));
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
 
-    // Update extensions with new settings
+    // Update services and extensions with new settings
+    this.calendarService?.updateSettings(this.settings);
+    this.taskIndex?.updateSettings(this.settings);
+    this.dailyNoteService?.updateSettings(this.settings);
+    this.rollupService?.updateSettings(this.settings);
+    this.dailyNoteArchive?.updateSettings(this.settings);
+    this.completionLog?.updateSettings(this.settings);
+    this.taskTimer?.updateSettings(this.settings);
     this.autoTimestamp?.updateSettings(this.settings);
     this.timeline?.updateSettings(this.settings);
     this.timelineLivePreview?.updateSettings(this.settings);
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TASK_SIDEBAR)) {
+      if (leaf.view instanceof TaskSidebarView) leaf.view.updateSettings(this.settings);
+    }
   }
 
   async createDailyNote() {
-    const date = new Date();
-    const dateStr = formatDate(date);
-    const filename = `${this.settings.dailyNotesFolder}/${dateStr}.md`;
-
-    const template = `# ${dateStr}
-
-## Thankful for
-
-
-## Focus
-
-
-${formatTime(date)} `;
+    const dateStr = formatDate(getLogicalDate(new Date(), this.settings.dayStartsAt));
+    const filename = getDailyNotePath(this.settings, dateStr);
 
     const file = this.app.vault.getAbstractFileByPath(filename);
     if (file) {
       const leaf = this.app.workspace.getLeaf();
       await leaf.openFile(file as any);
     } else {
-      const newFile = await this.app.vault.create(filename, template);
+      const newFile = await this.dailyNoteService.createDailyNote(dateStr);
       const leaf = this.app.workspace.getLeaf();
       await leaf.openFile(newFile);
     }
@@ -221,12 +418,7 @@ ${formatTime(date)} `;
     const activeMarkdownFile = activeMarkdownView?.file ?? this.app.workspace.getActiveFile();
 
     if (activeMarkdownFile) {
-      const prefix = `${this.settings.dailyNotesFolder}/`;
-      if (
-        typeof activeMarkdownFile.path === "string" &&
-        activeMarkdownFile.path.startsWith(prefix) &&
-        /^\d{4}-\d{2}-\d{2}\.md$/.test(activeMarkdownFile.name)
-      ) {
+      if (typeof activeMarkdownFile.path === "string" && isDailyNotePath(this.settings, activeMarkdownFile.path)) {
         this.lastActiveDailyNotePath = activeMarkdownFile.path;
       }
     }
@@ -242,7 +434,24 @@ ${formatTime(date)} `;
     this.app.workspace.revealLeaf(leaf);
   }
 
+  /**
+   * Open the task sidebar in the right sidebar, or reveal it if already open
+   */
+  async activateTaskSidebar(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_TASK_SIDEBAR);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+      return;
+    }
+
+    const leaf = this.app.workspace.getRightLeaf(false);
+    if (!leaf) return;
+    await leaf.setViewState({ type: VIEW_TYPE_TASK_SIDEBAR, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
   onunload() {
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_TEMPORAL_DRIFT);
+    this.app.workspace.detachLeavesOfType(VIEW_TYPE_TASK_SIDEBAR);
   }
 }
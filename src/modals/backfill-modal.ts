@@ -0,0 +1,144 @@
+// ============================================================================
+// Backfill Modal
+//
+// Create daily notes for a date range: plan the week ahead or fill in
+// forgotten past days. Existing notes are skipped.
+// ============================================================================
+
+import { App, Modal, Notice, Setting } from "obsidian";
+import { DailyNoteService } from "../services/daily-note";
+import { CalendarService } from "../services/calendar";
+import { addDays, formatDate, parseDate } from "../utils/time";
+
+const MAX_DAYS = 366;
+
+export class BackfillModal extends Modal {
+  private dailyNoteService: DailyNoteService;
+  private calendarService: CalendarService;
+  private from: string;
+  private to: string;
+  private skipWeekends = true;
+  private addEvents: boolean;
+  private summaryEl: HTMLElement | null = null;
+
+  constructor(app: App, dailyNoteService: DailyNoteService, calendarService: CalendarService) {
+    super(app);
+    this.dailyNoteService = dailyNoteService;
+    this.calendarService = calendarService;
+    this.addEvents = calendarService.isAvailable();
+
+    // Default to the coming week
+    const today = parseDate(dailyNoteService.getToday());
+    this.from = formatDate(today);
+    this.to = formatDate(addDays(today, 6));
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("Create daily notes for a date range");
+
+    new Setting(contentEl).setName("From").addText((text) => {
+      text.inputEl.type = "date";
+      text.setValue(this.from).onChange((value) => {
+        this.from = value;
+        this.updateSummary();
+      });
+    });
+
+    new Setting(contentEl).setName("To").addText((text) => {
+      text.inputEl.type = "date";
+      text.setValue(this.to).onChange((value) => {
+        this.to = value;
+        this.updateSummary();
+      });
+    });
+
+    new Setting(contentEl).setName("Skip weekends").addToggle((toggle) =>
+      toggle.setValue(this.skipWeekends).onChange((value) => {
+        this.skipWeekends = value;
+        this.updateSummary();
+      })
+    );
+
+    new Setting(contentEl)
+      .setName("Add calendar events")
+      .setDesc(
+        this.calendarService.isAvailable()
+          ? "Start each note with that day's events on the timeline"
+          : "No calendar plugin available"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.addEvents)
+          .setDisabled(!this.calendarService.isAvailable())
+          .onChange((value) => (this.addEvents = value))
+      );
+
+    this.summaryEl = contentEl.createEl("p");
+    this.updateSummary();
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Create notes")
+          .setCta()
+          .onClick(async () => {
+            btn.setDisabled(true);
+            await this.create();
+            btn.setDisabled(false);
+          })
+      )
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Dates in the range (inclusive), or null when the range is invalid
+   */
+  private getDates(): string[] | null {
+    const valid = /^\d{4}-\d{2}-\d{2}$/;
+    if (!valid.test(this.from) || !valid.test(this.to) || this.from > this.to) return null;
+
+    const dates: string[] = [];
+    for (let d = parseDate(this.from); formatDate(d) <= this.to; d = addDays(d, 1)) {
+      if (dates.length >= MAX_DAYS) return null;
+      const weekday = d.getDay();
+      if (this.skipWeekends && (weekday === 0 || weekday === 6)) continue;
+      dates.push(formatDate(d));
+    }
+    return dates;
+  }
+
+  private updateSummary(): void {
+    if (!this.summaryEl) return;
+
+    const dates = this.getDates();
+    if (!dates) {
+      this.summaryEl.setText(`Choose a start date on or before the end date (at most ${MAX_DAYS} days).`);
+      return;
+    }
+
+    const existing = dates.filter((d) => this.dailyNoteService.dailyNoteExists(d)).length;
+    const kept = existing > 0 ? `, ${existing} already exist and stay as they are` : "";
+    this.summaryEl.setText(`${dates.length - existing} notes will be created${kept}.`);
+  }
+
+  private async create(): Promise<void> {
+    const dates = this.getDates();
+    if (!dates) {
+      new Notice("Temporal Drift: invalid date range");
+      return;
+    }
+
+    const { created, skipped } = await this.dailyNoteService.createDailyNotes(
+      dates,
+      this.addEvents ? this.calendarService : undefined
+    );
+    new Notice(`Temporal Drift: created ${created.length} daily notes, skipped ${skipped.length} existing`);
+    this.close();
+  }
+}
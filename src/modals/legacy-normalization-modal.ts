@@ -0,0 +1,114 @@
+// ============================================================================
+// Legacy Normalization Modal
+//
+// Lists daily notes with legacy timestamps. Each note can be previewed (and
+// edited/applied on its own) before the selected notes are applied in batch.
+// ============================================================================
+
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { JournalNormalizer, NormalizationCandidate } from "../services/journal-normalizer";
+import { LEGACY_STYLE_LABELS, normalizeLegacyTimeline } from "../parser/legacy-normalizer";
+import { MigrationPreviewModal, replaceIfUnchanged } from "./migration-preview-modal";
+
+export class LegacyNormalizationModal extends Modal {
+  private normalizer: JournalNormalizer;
+  private scanned: number;
+  private candidates: NormalizationCandidate[];
+  private selected: Set<TFile>;
+  private applied = new Set<TFile>();
+
+  constructor(app: App, normalizer: JournalNormalizer, scanned: number, candidates: NormalizationCandidate[]) {
+    super(app);
+    this.normalizer = normalizer;
+    this.scanned = scanned;
+    this.candidates = candidates;
+    this.selected = new Set(candidates.map((c) => c.file));
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Normalize legacy daily notes");
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("p", {
+      text: `${this.candidates.length} of ${this.scanned} daily notes use legacy timestamps.`,
+    });
+
+    const list = contentEl.createDiv({ cls: "temporal-drift-normalization-list" });
+    for (const candidate of this.candidates) {
+      const { file, result } = candidate;
+      const styles = [...new Set(result.changes.map((c) => LEGACY_STYLE_LABELS[c.style]))];
+      const isApplied = this.applied.has(file);
+
+      new Setting(list)
+        .setName(file.path)
+        .setDesc(`${isApplied ? "Applied. " : ""}${result.changes.length} lines: ${styles.join(", ")}`)
+        .addButton((btn) =>
+          btn
+            .setButtonText("Preview")
+            .setDisabled(isApplied)
+            .onClick(() => this.preview(file))
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.selected.has(file))
+            .setDisabled(isApplied)
+            .onChange((value) => {
+              if (value) this.selected.add(file);
+              else this.selected.delete(file);
+            })
+        );
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Apply selected")
+          .setCta()
+          .onClick(async () => {
+            btn.setDisabled(true);
+            await this.applySelected();
+          })
+      )
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+  }
+
+  /**
+   * Per-file side-by-side preview; accepting writes that file right away
+   */
+  private async preview(file: TFile): Promise<void> {
+    const original = await this.app.vault.read(file);
+
+    new MigrationPreviewModal(this.app, {
+      title: `Normalize ${file.basename}`,
+      original,
+      proposed: normalizeLegacyTimeline(original).content,
+      acceptText: "Apply",
+      onAccept: async (content) => {
+        if (!(await replaceIfUnchanged(this.app, file, original, content))) return;
+        this.applied.add(file);
+        this.selected.delete(file);
+        this.render();
+      },
+    }).open();
+  }
+
+  private async applySelected(): Promise<void> {
+    const files = this.candidates.map((c) => c.file).filter((f) => this.selected.has(f));
+    const applied = await this.normalizer.apply(files);
+    applied.forEach((f) => this.applied.add(f));
+
+    const report = await this.normalizer.writeReport(this.scanned, this.candidates, this.applied);
+    new Notice(`Temporal Drift: normalized ${this.applied.size} notes`);
+    this.close();
+    await this.app.workspace.getLeaf(false).openFile(report);
+  }
+}
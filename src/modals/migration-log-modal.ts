@@ -0,0 +1,32 @@
+// ============================================================================
+// Migration Log Modal
+//
+// Pick a logged migration to undo.
+// ============================================================================
+
+import { App, FuzzySuggestModal } from "obsidian";
+import { MigrationRecord } from "../services/migration-log";
+
+export class MigrationLogModal extends FuzzySuggestModal<MigrationRecord> {
+  private records: MigrationRecord[];
+  private onChoose: (record: MigrationRecord) => void;
+
+  constructor(app: App, records: MigrationRecord[], onChoose: (record: MigrationRecord) => void) {
+    super(app);
+    this.records = records;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a migration to undo");
+  }
+
+  getItems(): MigrationRecord[] {
+    return this.records;
+  }
+
+  getItemText(record: MigrationRecord): string {
+    return `${record.path} (${new Date(record.migratedAt).toLocaleString()})`;
+  }
+
+  onChooseItem(record: MigrationRecord): void {
+    this.onChoose(record);
+  }
+}
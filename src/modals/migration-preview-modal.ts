@@ -0,0 +1,106 @@
+// ============================================================================
+// Migration Preview Modal
+//
+// Shows a note's current content and the proposed rewrite side by side.
+// The proposal can be edited before it is accepted; nothing is written on
+// cancel.
+// ============================================================================
+
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { diffLines } from "../utils/diff";
+
+export interface MigrationPreviewOptions {
+  title: string;
+  original: string;
+  proposed: string;
+  acceptText: string;
+  onAccept: (content: string) => Promise<void>;
+}
+
+/**
+ * Write an accepted preview unless the note changed while it was open
+ */
+export async function replaceIfUnchanged(app: App, file: TFile, expected: string, content: string): Promise<boolean> {
+  let changed = false;
+  await app.vault.process(file, (current) => {
+    if (current !== expected) {
+      changed = true;
+      return current;
+    }
+    return content;
+  });
+  if (changed) {
+    new Notice("Temporal Drift: the note changed while the preview was open; nothing was written");
+  }
+  return !changed;
+}
+
+export class MigrationPreviewModal extends Modal {
+  private options: MigrationPreviewOptions;
+  private proposed: string;
+  private editing = false;
+
+  constructor(app: App, options: MigrationPreviewOptions) {
+    super(app);
+    this.options = options;
+    this.proposed = options.proposed;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("temporal-drift-migration-modal");
+    this.titleEl.setText(this.options.title);
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const panes = contentEl.createDiv({ cls: "temporal-drift-migration-panes" });
+    const left = panes.createDiv({ cls: "temporal-drift-migration-pane" });
+    const right = panes.createDiv({ cls: "temporal-drift-migration-pane" });
+    left.createDiv({ cls: "temporal-drift-section-header", text: "Current" });
+    right.createDiv({ cls: "temporal-drift-section-header", text: "Proposed" });
+
+    const diff = diffLines(this.options.original, this.proposed);
+
+    const before = left.createEl("pre");
+    for (const line of diff.filter((d) => d.type !== "added")) {
+      before.createDiv({ cls: `temporal-drift-diff-line is-${line.type}`, text: line.text || " " });
+    }
+
+    if (this.editing) {
+      const textarea = right.createEl("textarea", { cls: "temporal-drift-migration-editor" });
+      textarea.value = this.proposed;
+      textarea.addEventListener("input", () => (this.proposed = textarea.value));
+    } else {
+      const after = right.createEl("pre");
+      for (const line of diff.filter((d) => d.type !== "removed")) {
+        after.createDiv({ cls: `temporal-drift-diff-line is-${line.type}`, text: line.text || " " });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText(this.options.acceptText)
+          .setCta()
+          .onClick(async () => {
+            btn.setDisabled(true);
+            await this.options.onAccept(this.proposed);
+            this.close();
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText(this.editing ? "Show changes" : "Edit").onClick(() => {
+          this.editing = !this.editing;
+          this.render();
+        })
+      )
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+  }
+}
@@ -0,0 +1,114 @@
+// ============================================================================
+// Task Capture Modal
+//
+// Create a task from one line ("Send deck to Anna tomorrow !now #apollo ~30m")
+// with a live preview of what was recognised. See parser/task-capture.
+// ============================================================================
+
+import { App, Modal, Notice, Setting } from "obsidian";
+import { TemporalDriftSettings } from "../types";
+import { TaskIndexService } from "../services/task-index";
+import { CapturedTask, parseTaskCapture } from "../parser/task-capture";
+import { formatDate, formatDuration, getLogicalDate } from "../utils/time";
+
+export class TaskCaptureModal extends Modal {
+  private taskIndexService: TaskIndexService;
+  private settings: TemporalDriftSettings;
+  private input = "";
+  private previewEl: HTMLElement | null = null;
+  private creating = false;
+
+  constructor(app: App, taskIndexService: TaskIndexService, settings: TemporalDriftSettings) {
+    super(app);
+    this.taskIndexService = taskIndexService;
+    this.settings = settings;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("New task");
+
+    new Setting(contentEl)
+      .setDesc("Due: today, tomorrow, friday, next week, in 3 days, YYYY-MM-DD. Priority: !now !next !later. Also #tag ~30m +Project @context.")
+      .addText((text) => {
+        text.inputEl.addClass("temporal-drift-capture-input");
+        text.setPlaceholder("Send deck to Anna tomorrow !now #apollo ~30m").onChange((value) => {
+          this.input = value;
+          this.updatePreview();
+        });
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter" && !e.isComposing) {
+            e.preventDefault();
+            void this.create();
+          }
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+
+    this.previewEl = contentEl.createDiv({ cls: "temporal-drift-capture-preview" });
+    this.updatePreview();
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Create task").setCta().onClick(() => this.create()))
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private parse(): CapturedTask {
+    return parseTaskCapture(this.input, formatDate(getLogicalDate(new Date(), this.settings.dayStartsAt)));
+  }
+
+  private updatePreview(): void {
+    if (!this.previewEl) return;
+    this.previewEl.empty();
+
+    const task = this.parse();
+    const rows: [string, string | undefined][] = [
+      ["Title", task.title],
+      ["Due", task.due],
+      ["Priority", task.priority ?? `${this.settings.defaultPriority} (default)`],
+      ["Tags", task.tags.map((t) => `#${t}`).join(" ")],
+      ["Project", task.project],
+      ["Estimate", task.estimate ? formatDuration(task.estimate) : undefined],
+      ["Context", task.context],
+    ];
+    for (const [label, value] of rows) {
+      if (!value) continue;
+      const row = this.previewEl.createDiv({ cls: "temporal-drift-capture-field" });
+      row.createSpan({ cls: "temporal-drift-capture-label", text: label });
+      row.createSpan({ text: value });
+    }
+  }
+
+  private async create(): Promise<void> {
+    const task = this.parse();
+    if (!task.title) {
+      new Notice("Temporal Drift: the task needs a title");
+      return;
+    }
+    if (this.creating) return;
+    this.creating = true;
+
+    try {
+      const file = await this.taskIndexService.createTask(task.title, {
+        due: task.due,
+        priority: task.priority,
+        tags: task.tags,
+        project: task.project,
+        estimate: task.estimate,
+        context: task.context,
+      });
+      new Notice(`Temporal Drift: created task "${file.basename}"`);
+      this.close();
+    } catch (error) {
+      console.error("Temporal Drift: could not create task", error);
+      new Notice(`Temporal Drift: could not create task "${task.title}"`);
+    } finally {
+      this.creating = false;
+    }
+  }
+}
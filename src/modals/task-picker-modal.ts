@@ -0,0 +1,32 @@
+// ============================================================================
+// Task Picker Modal
+//
+// Pick a task note (e.g. to start a timer on).
+// ============================================================================
+
+import { App, FuzzySuggestModal } from "obsidian";
+import { TaskMeta } from "../types";
+
+export class TaskPickerModal extends FuzzySuggestModal<TaskMeta> {
+  private tasks: TaskMeta[];
+  private onChoose: (task: TaskMeta) => void;
+
+  constructor(app: App, tasks: TaskMeta[], placeholder: string, onChoose: (task: TaskMeta) => void) {
+    super(app);
+    this.tasks = tasks;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): TaskMeta[] {
+    return this.tasks;
+  }
+
+  getItemText(task: TaskMeta): string {
+    return task.due ? `${task.title} (due ${task.due})` : task.title;
+  }
+
+  onChooseItem(task: TaskMeta): void {
+    this.onChoose(task);
+  }
+}
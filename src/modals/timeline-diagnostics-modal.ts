@@ -0,0 +1,97 @@
+// ============================================================================
+// Timeline Diagnostics Modal
+//
+// Lists problems found in a daily note's timeline and offers a one-click
+// chronological sort.
+// ============================================================================
+
+import { App, MarkdownView, Modal, Notice, Setting, TFile } from "obsidian";
+import { TimelineDiagnostic, TimelineDiagnosticKind } from "../parser/timeline-diagnostics";
+import { sortEntries } from "../parser/timeline-edits";
+import { DaySectionConfig } from "../types";
+
+const KIND_LABELS: Record<TimelineDiagnosticKind, string> = {
+  "invalid-time": "Invalid times",
+  "duplicate-time": "Duplicate times",
+  "orphaned-line": "Orphaned indented lines",
+  "out-of-order": "Entries out of order",
+};
+
+export class TimelineDiagnosticsModal extends Modal {
+  private file: TFile;
+  private diagnostics: TimelineDiagnostic[];
+  private sections: DaySectionConfig[];
+
+  constructor(app: App, file: TFile, diagnostics: TimelineDiagnostic[], sections: DaySectionConfig[]) {
+    super(app);
+    this.file = file;
+    this.diagnostics = diagnostics;
+    this.sections = sections;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("temporal-drift-diagnostics");
+
+    this.titleEl.setText(`Timeline check: ${this.file.basename}`);
+
+    if (this.diagnostics.length === 0) {
+      contentEl.createDiv({ cls: "temporal-drift-empty", text: "No problems found." });
+    }
+
+    for (const kind of Object.keys(KIND_LABELS) as TimelineDiagnosticKind[]) {
+      const items = this.diagnostics.filter((d) => d.kind === kind);
+      if (items.length === 0) continue;
+
+      const group = contentEl.createDiv({ cls: "temporal-drift-diagnostics-group" });
+      group.createDiv({
+        cls: "temporal-drift-section-header",
+        text: `${KIND_LABELS[kind]} (${items.length})`,
+      });
+
+      const list = group.createEl("ul");
+      for (const item of items) {
+        const li = list.createEl("li");
+        const link = li.createEl("a", { text: `Line ${item.line + 1}`, attr: { href: "#" } });
+        li.appendText(` — ${item.message}`);
+        link.addEventListener("click", async (e) => {
+          e.preventDefault();
+          await this.jumpToLine(item.line);
+        });
+      }
+    }
+
+    const outOfOrder = this.diagnostics.some((d) => d.kind === "out-of-order");
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText("Sort entries chronologically")
+          .setCta()
+          .setDisabled(!outOfOrder)
+          .onClick(async () => {
+            await this.app.vault.process(this.file, (content) => sortEntries(content, this.sections));
+            new Notice("Temporal Drift: timeline sorted");
+            this.close();
+          })
+      )
+      .addButton((btn) => btn.setButtonText("Close").onClick(() => this.close()));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async jumpToLine(line: number): Promise<void> {
+    this.close();
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(this.file, { active: true });
+
+    const view = leaf.view;
+    if (view instanceof MarkdownView) {
+      view.editor.setCursor({ line, ch: 0 });
+      view.editor.focus();
+    }
+  }
+}
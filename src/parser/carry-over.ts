@@ -0,0 +1,105 @@
+// ============================================================================
+// Carry Over
+//
+// Picks unfinished work out of a previous daily note and writes it into a new
+// one under "## Carried over". Pure text transforms; the daily note service
+// finds the notes and filters out tasks the index already knows are done.
+// ============================================================================
+
+import { DaySectionConfig, DEFAULT_SETTINGS, LinkRef, TaskStatusConfig } from "../types";
+import { extractLinks, findSectionConfig, parseDailyNote } from "./daily-note-parser";
+import { getStatusForMarker } from "../utils/task-status";
+
+export const CARRIED_OVER_HEADING = "Carried over";
+
+const TASK_ITEM_RE = /^[-*+]\s*\[\s*([^\]\s]?)\s*\]\s*(.*)$/;
+
+export interface CarryOverItem {
+  text: string; // list item as it will be written, e.g. "- [ ] [[Task]]"
+  links: LinkRef[];
+  carried: boolean; // already carried over once and back-linked to its original day
+}
+
+export interface CarryOverOptions {
+  tasks: boolean;
+  focus: boolean;
+}
+
+/**
+ * Unfinished task entries ("- [ ]", "- [/]", ...), unfinished Focus items and
+ * anything still open under a previous "Carried over" block. Tasks keep their
+ * status marker.
+ */
+export function collectCarryOver(
+  content: string,
+  sectionConfigs: DaySectionConfig[],
+  options: CarryOverOptions,
+  taskStatuses: TaskStatusConfig[] = DEFAULT_SETTINGS.taskStatuses
+): CarryOverItem[] {
+  const doc = parseDailyNote(content, sectionConfigs, taskStatuses);
+  const items: CarryOverItem[] = [];
+  const isClosedItem = (line: string) => {
+    const task = line.match(TASK_ITEM_RE);
+    return !!task && getStatusForMarker(taskStatuses, task[1]).closed;
+  };
+
+  if (options.tasks) {
+    for (const entry of doc.entries) {
+      if (entry.type !== "task" || isClosedItem(entry.head)) continue;
+      const task = entry.head.match(TASK_ITEM_RE);
+      if (!task || !task[2].trim()) continue;
+      items.push({ text: `- [${task[1] || " "}] ${task[2].trim()}`, links: entry.links, carried: false });
+    }
+  }
+
+  const focusConfig = findSectionConfig("Focus", sectionConfigs);
+  for (const section of doc.sections) {
+    const isFocus = options.focus && !!focusConfig && findSectionConfig(section.heading, sectionConfigs) === focusConfig;
+    const isCarried = section.heading.toLowerCase() === CARRIED_OVER_HEADING.toLowerCase();
+    if (!isFocus && !isCarried) continue;
+
+    for (const line of section.lines) {
+      if (isClosedItem(line)) continue;
+      if (isCarried && !(TASK_ITEM_RE.test(line) ? options.tasks : options.focus)) continue;
+      items.push({
+        text: /^[-*+]\s/.test(line) ? line : `- ${line}`,
+        links: extractLinks(line),
+        carried: isCarried,
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Insert the carried-over items as a "## Carried over" block above the
+ * timeline, each back-linked to the day it came from
+ */
+export function insertCarriedOver(
+  content: string,
+  items: CarryOverItem[],
+  sourceLink: string,
+  sectionConfigs: DaySectionConfig[]
+): string {
+  if (items.length === 0) return content;
+
+  const doc = parseDailyNote(content, sectionConfigs);
+  const lines = content.split("\n");
+  const block = [
+    `## ${CARRIED_OVER_HEADING}`,
+    "",
+    ...items.map((item) => (item.carried ? item.text : `${item.text} (from ${sourceLink})`)),
+    "",
+  ];
+
+  // Above the first entry, else below the header sections, else at the end
+  const header = doc.sections.filter((s) => s.kind === "before").pop();
+  let at = lines.length;
+  if (doc.entries.length > 0) at = doc.entries[0].lineStart;
+  else if (header) at = header.lineEnd + 1;
+
+  if (at > 0 && lines[at - 1].trim() !== "") block.unshift("");
+  lines.splice(at, 0, ...block);
+  return lines.join("\n");
+}
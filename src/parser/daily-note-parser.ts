@@ -0,0 +1,419 @@
+// ============================================================================
+// Daily Note Parser
+//
+// Single source of truth for the daily note grammar. Every renderer (ItemView,
+// Live Preview, Reading view), editor extension and service goes through here
+// so a note renders the same way in every mode.
+//
+// Grammar:
+// - "# YYYY-MM-DD"            title
+// - "## Heading"              section (ends at next heading or first time line);
+//                             configured headings are exposed as daySections
+// - "HH:mm head"              timeline entry (optional list marker: "- HH:mm")
+//                             also "HH:mm:ss" and 12-hour "9:05 am"
+// - "HH:mm–HH:mm head"        timeline entry with an explicit range
+// - "    indented"            entry body (blank lines allowed in between)
+// ============================================================================
+
+import {
+  CalendarEvent,
+  DailyNoteDocument,
+  DailyNoteSection,
+  DailyNoteSectionKind,
+  DaySectionConfig,
+  DEFAULT_SETTINGS,
+  LinkRef,
+  TaskStatusConfig,
+  TimelineEntry,
+  TimelineEntryType,
+} from "../types";
+import { getStatusForMarker } from "../utils/task-status";
+
+// A single timestamp in any supported style: "09:05", "9:05", "09:05:30",
+// "9:05 am", "9:05pm", "9:05 a.m.". Times past midnight that belong to the
+// previous day are written "24:40" or "00:40+1".
+const TIME_SRC = "\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\s?[aApP]\\.?[mM]\\.?)?(?:\\+1)?";
+const TIME_TOKEN_RE = /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s?([aApP])\.?[mM]\.?)?(\+1)?$/;
+
+// No regex lookbehind for iOS compatibility
+const TIME_LINE_RE = new RegExp(
+  `^((?:[-*+]\\s+)?)(${TIME_SRC})(?:\\s*[–—-]\\s*(${TIME_SRC}))?(?=\\s|$)\\s*(.*)$`
+);
+const HEADING_RE = /^(#{1,6})\s+(.*)$/;
+
+// Leading YAML frontmatter block, including its closing line break
+export const FRONTMATTER_RE = /^---\n[\s\S]*?\n---(?:\n|$)/;
+// "- [ ]", "- [x]", "- [/]", "- [-]"; any single character is a status marker
+const TASK_RE = /^-\s*\[\s*([^\]\s]?)\s*\]/;
+const WIKILINK_RE = /\[\[([^\]]+)\]\]/g;
+
+export interface ParsedTime {
+  time: string; // normalized 24-hour HH:mm (HH:mm:ss when seconds are given); "24:40" past midnight
+  minutes: number; // may exceed 1440 for after-midnight entries
+  seconds: number; // sort key with seconds precision ("09:05:10" before "09:05:30")
+}
+
+export interface ParsedTimeLine extends ParsedTime {
+  rawTime: string;
+  endTime?: string;
+  endMinutes?: number;
+  head: string;
+  timeStart: number; // column of the timestamp
+  timeEnd: number;
+  headStart: number;
+}
+
+/**
+ * Parse a single timestamp token in any supported style.
+ * 12-hour times convert to 24-hour so mixed-format notes sort correctly.
+ */
+export function parseTimeToken(token: string): ParsedTime | null {
+  const m = token.trim().match(TIME_TOKEN_RE);
+  if (!m) return null;
+
+  let hours = Number(m[1]);
+  const minutes = Number(m[2]);
+  const meridiem = m[4]?.toLowerCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (hours === 12) hours = 0;
+    if (meridiem === "p") hours += 12;
+  }
+  if (m[5]) hours += 24;
+
+  const hh = hours.toString().padStart(2, "0");
+  const time = m[3] !== undefined ? `${hh}:${m[2]}:${m[3]}` : `${hh}:${m[2]}`;
+
+  return { time, minutes: hours * 60 + minutes, seconds: (hours * 60 + minutes) * 60 + Number(m[3] ?? 0) };
+}
+
+/**
+ * Match a single timestamp line. Returns null for anything else.
+ */
+export function parseTimeLine(line: string): ParsedTimeLine | null {
+  const m = line.match(TIME_LINE_RE);
+  if (!m) return null;
+
+  const start = parseTimeToken(m[2]);
+  if (!start) return null;
+
+  const timeStart = m[1].length;
+  const rest = m[4] ?? "";
+  const headStart = line.length - rest.length;
+  const timeEnd = timeStart + line.slice(timeStart, headStart).trimEnd().length;
+
+  const parsed: ParsedTimeLine = {
+    time: start.time,
+    rawTime: m[2],
+    minutes: start.minutes,
+    seconds: start.seconds,
+    head: rest.trim(),
+    timeStart,
+    timeEnd,
+    headStart,
+  };
+
+  const end = m[3] !== undefined ? parseTimeToken(m[3]) : null;
+  if (end) {
+    parsed.endTime = end.time;
+    parsed.endMinutes = end.minutes;
+  }
+
+  return parsed;
+}
+
+export function isTimeLine(line: string): boolean {
+  return parseTimeLine(line) !== null;
+}
+
+/**
+ * Minutes since midnight for a timestamp in any supported style (NaN if malformed)
+ */
+export function minutesSinceMidnight(time: string): number {
+  return parseTimeToken(time)?.minutes ?? Number.NaN;
+}
+
+export function parseWikilinkDisplay(raw: string): LinkRef {
+  // raw: "path/to/File|Display" or "path/to/File".
+  // If display is missing, use the last path segment.
+  const match = raw.match(/^([^|]+)(?:\|(.+))?$/);
+  const target = (match?.[1] ?? raw).trim();
+  const display = (match?.[2] ?? target.split("/").pop() ?? target).trim();
+  return { target, display };
+}
+
+export function stripWikilinks(text: string): string {
+  return text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_m, p1: string, p2: string | undefined) => {
+    return (p2 ?? p1.split("/").pop() ?? p1).trim();
+  });
+}
+
+/**
+ * Remove " ~eventId" suffix from displayed event titles (keep link target intact)
+ * Example: "Standup ~test001" -> "Standup"
+ */
+export function stripEventIdSuffix(title: string): string {
+  return title.replace(/\s*~[a-zA-Z0-9]+$/, "").trim();
+}
+
+export function extractLinks(text: string): LinkRef[] {
+  return Array.from(text.matchAll(WIKILINK_RE)).map((m) => parseWikilinkDisplay(m[1]));
+}
+
+function extractParticipants(head: string): LinkRef[] {
+  // Example: "[[Standup ~id]] with [[Anna Meyer]], [[Tom Schmidt]]"
+  const withIdx = head.indexOf(" with ");
+  if (withIdx < 0) return [];
+  return extractLinks(head.slice(withIdx + " with ".length));
+}
+
+// Older notes were written with "Grateful for" before the heading was renamed
+const LEGACY_HEADINGS: Record<string, string> = {
+  "grateful for": "thankful for",
+};
+
+// "  Thankful   For " -> "thankful for"
+function normalizeHeading(heading: string): string {
+  return heading.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * The configured section a heading belongs to. The whole heading must match
+ * (ignoring case and spacing): "## Focus areas for Q4" is not "Focus".
+ */
+export function findSectionConfig(heading: string, configs: DaySectionConfig[]): DaySectionConfig | undefined {
+  const text = normalizeHeading(heading);
+  const name = LEGACY_HEADINGS[text] ?? text;
+  return configs.find((c) => {
+    const configured = normalizeHeading(c.heading);
+    return configured !== "" && configured === name;
+  });
+}
+
+function sectionKind(heading: string, configs: DaySectionConfig[]): DailyNoteSectionKind {
+  return findSectionConfig(heading, configs)?.position ?? "other";
+}
+
+function buildEntry(
+  taskStatuses: TaskStatusConfig[],
+  parsed: ParsedTimeLine,
+  body: string[],
+  lineStart: number,
+  lineEnd: number,
+  from: number,
+  to: number
+): TimelineEntry {
+  const head = parsed.head;
+  const links = extractLinks(head);
+  const participants = extractParticipants(head);
+
+  // Tasks: "- [ ] [[Task]]" / "- [x] ..." / "- [/] ..."
+  const taskMatch = head.match(TASK_RE);
+  const afterCheckbox = taskMatch ? head.slice(taskMatch[0].length).trim() : head;
+
+  const leadingMatch = afterCheckbox.match(/^\[\[([^\]]+)\]\]/);
+  const leadingLink = leadingMatch ? parseWikilinkDisplay(leadingMatch[1]) : null;
+  const primaryLink = leadingLink ?? links[0] ?? null;
+
+  let type: TimelineEntryType = "note";
+  if (taskMatch) type = "task";
+  else if (leadingLink) type = "event";
+
+  const eventIdMatch = type === "event" ? leadingLink?.target.match(/~([a-zA-Z0-9]+)$/) : null;
+
+  const title = (() => {
+    if (leadingLink) return stripEventIdSuffix(leadingLink.display);
+    const plain = afterCheckbox.split(" with ")[0];
+    return stripEventIdSuffix(stripWikilinks(plain || "(empty)"));
+  })();
+
+  // Location line: whatever follows the leading link, minus participants
+  const locationText = (() => {
+    if (!leadingLink) return "";
+    let t = afterCheckbox;
+    const withIdx = t.indexOf(" with ");
+    if (withIdx >= 0) t = t.slice(0, withIdx);
+    t = t.replace(/^\s*\[\[[^\]]+\]\]\s*/, "");
+    return stripWikilinks(t).trim();
+  })();
+
+  const entry: TimelineEntry = {
+    type,
+    time: parsed.time,
+    rawTime: parsed.rawTime,
+    minutes: parsed.minutes,
+    seconds: parsed.seconds,
+    head,
+    body,
+    lineStart,
+    lineEnd,
+    from,
+    to,
+    timeFrom: from + parsed.timeStart,
+    timeTo: from + parsed.timeEnd,
+    headFrom: from + parsed.headStart,
+    title,
+    locationText,
+    primaryLink,
+    participants,
+    links,
+  };
+
+  if (parsed.endTime !== undefined && parsed.endMinutes !== undefined) {
+    // A range ending "before" it starts runs past midnight
+    let end = parsed.endMinutes;
+    if (end <= parsed.minutes) end += 24 * 60;
+    entry.endTime = parsed.endTime;
+    entry.duration = end - parsed.minutes;
+    entry.durationSource = "range";
+  }
+  if (taskMatch) {
+    entry.marker = taskMatch[1] || " ";
+    entry.status = getStatusForMarker(taskStatuses, entry.marker).id;
+  }
+  if (eventIdMatch) {
+    entry.eventId = eventIdMatch[1];
+  }
+
+  return entry;
+}
+
+/**
+ * Entries without an explicit range last until the next entry in time
+ */
+function applyNextEntryDurations(entries: TimelineEntry[]): void {
+  const starts = entries.map((e) => e.minutes).sort((a, b) => a - b);
+
+  for (const entry of entries) {
+    if (entry.duration !== undefined) continue;
+    const next = starts.find((m) => m > entry.minutes);
+    if (next === undefined) continue;
+    entry.duration = next - entry.minutes;
+    entry.durationSource = "next";
+  }
+}
+
+/**
+ * Prefer calendar durations over next-entry durations for entries that match
+ * a calendar event (by "~eventId" or by start time + title). Explicit ranges win.
+ */
+export function applyCalendarDurations(entries: TimelineEntry[], events: CalendarEvent[]): void {
+  if (events.length === 0) return;
+
+  for (const entry of entries) {
+    if (entry.durationSource === "range") continue;
+
+    const event = events.find(
+      (ev) =>
+        (entry.eventId !== undefined && ev.id === entry.eventId) ||
+        (ev.start.getHours() * 60 + ev.start.getMinutes() === entry.minutes && ev.title === entry.title)
+    );
+    if (!event) continue;
+
+    const minutes = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
+    if (!(minutes > 0)) continue;
+
+    entry.duration = minutes;
+    entry.durationSource = "calendar";
+  }
+}
+
+/**
+ * Parse a daily note into its document model
+ */
+export function parseDailyNote(
+  content: string,
+  sectionConfigs: DaySectionConfig[] = DEFAULT_SETTINGS.sections,
+  taskStatuses: TaskStatusConfig[] = DEFAULT_SETTINGS.taskStatuses
+): DailyNoteDocument {
+  const lines = content.split("\n");
+
+  // Character offset of each line start
+  const offsets: number[] = new Array(lines.length);
+  let offset = 0;
+  for (let i = 0; i < lines.length; i++) {
+    offsets[i] = offset;
+    offset += lines[i].length + 1;
+  }
+  const lineEndOffset = (i: number) => offsets[i] + lines[i].length;
+
+  const doc: DailyNoteDocument = { sections: [], entries: [], daySections: [] };
+  let section: DailyNoteSection | null = null;
+
+  const closeSection = (lastLine: number) => {
+    if (!section) return;
+    section.lineEnd = lastLine;
+    section.to = lineEndOffset(lastLine);
+    doc.sections.push(section);
+    section = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      closeSection(i - 1);
+      if (heading[1].length === 1) {
+        if (doc.title === undefined) doc.title = heading[2].trim();
+        continue;
+      }
+      const text = heading[2].trim();
+      section = {
+        kind: sectionKind(text, sectionConfigs),
+        heading: text,
+        lines: [],
+        lineStart: i,
+        lineEnd: i,
+        from: offsets[i],
+        to: lineEndOffset(i),
+      };
+      continue;
+    }
+
+    const parsed = parseTimeLine(line);
+    if (!parsed) {
+      if (section && line.trim()) section.lines.push(line.trim());
+      continue;
+    }
+
+    // Sections end implicitly once timeline entries start
+    closeSection(i - 1);
+
+    // Only indented lines belong to this entry (blank lines allowed)
+    const body: string[] = [];
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      const next = lines[j];
+      if (next.trim() === "") {
+        body.push("");
+        continue;
+      }
+      if (!/^\s+/.test(next)) break;
+      body.push(next.replace(/^\s+/, ""));
+      end = j;
+    }
+
+    // Trailing blank lines separate entries; they are not part of the body
+    body.length = end - i;
+
+    doc.entries.push(buildEntry(taskStatuses, parsed, body, i, end, offsets[i], lineEndOffset(end)));
+    i = end;
+  }
+
+  closeSection(lines.length - 1);
+  applyNextEntryDurations(doc.entries);
+
+  // Every configured section, in configured order (first matching heading wins)
+  doc.daySections = sectionConfigs.map((config) => {
+    const found = doc.sections.find((s) => findSectionConfig(s.heading, sectionConfigs) === config);
+    return {
+      ...config,
+      content: found ? found.lines.join("\n") : "",
+      lineStart: found?.lineStart,
+    };
+  });
+
+  return doc;
+}
@@ -0,0 +1,114 @@
+// ============================================================================
+// Inline Tasks
+//
+// Checkbox lines inside notes, as opposed to task notes in the tasks folder:
+//
+//   09:15 - [ ] call the bank               (timeline entry in a daily note)
+//   - [/] draft the proposal ^draft-1       (list item, optional block id)
+//
+// Pure text helpers; the task index decides which notes are scanned.
+// ============================================================================
+
+import { LinkRef } from "../types";
+import { extractLinks, parseTimeLine, stripWikilinks } from "./daily-note-parser";
+
+// "- [ ] text", "* [x] text"; any single character is a status marker
+const CHECKBOX_RE = /^(\s*[-*+]\s*\[)([^\]]?)\]\s*(.*)$/;
+const BLOCK_ID_RE = /(?:^|\s+)\^([A-Za-z0-9-]+)\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+export interface InlineTask {
+  line: number; // 0-based
+  marker: string; // checkbox character as written (" ", "x", "/", ...)
+  markerCh: number; // column of the marker, for editing it in place
+  textCh: number; // column where the text starts
+  raw: string; // text after the checkbox, as written (including the block id)
+  text: string; // raw without the block id
+  title: string; // text without link syntax
+  links: LinkRef[];
+  blockId?: string;
+}
+
+/**
+ * Parse one line as an inline task, or null if it has no checkbox. Timeline
+ * lines ("09:15 - [ ] ...") are matched after their timestamp.
+ */
+export function parseInlineTask(line: string, lineNumber = 0): InlineTask | null {
+  const timed = parseTimeLine(line);
+  const offset = timed ? timed.headStart : 0;
+  const rest = line.slice(offset);
+  const m = rest.match(CHECKBOX_RE);
+  if (!m) return null;
+
+  const raw = m[3].trimEnd();
+  const blockId = raw.match(BLOCK_ID_RE)?.[1];
+  const text = raw.replace(BLOCK_ID_RE, "");
+  if (!text) return null;
+
+  const task: InlineTask = {
+    line: lineNumber,
+    marker: m[2] || " ",
+    markerCh: offset + m[1].length,
+    textCh: offset + rest.length - m[3].length,
+    raw,
+    text,
+    title: stripWikilinks(text).trim(),
+    links: extractLinks(text),
+  };
+  if (blockId) task.blockId = blockId;
+  return task;
+}
+
+/**
+ * All inline tasks of a note, skipping frontmatter and code blocks
+ */
+export function parseInlineTasks(content: string): InlineTask[] {
+  const lines = content.split("\n");
+  const tasks: InlineTask[] = [];
+
+  let i = 0;
+  if (lines[0] === "---") {
+    const close = lines.indexOf("---", 1);
+    if (close > 0) i = close + 1;
+  }
+
+  let inFence = false;
+  for (; i < lines.length; i++) {
+    if (FENCE_RE.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const task = parseInlineTask(lines[i], i);
+    if (task) tasks.push(task);
+  }
+  return tasks;
+}
+
+/**
+ * Find a task again after the note may have changed: by block id, else at
+ * its old line if the text still matches, else the only line with that text
+ */
+export function findInlineTask(
+  content: string,
+  source: { line: number; blockId?: string },
+  text: string
+): InlineTask | null {
+  const tasks = parseInlineTasks(content);
+  if (source.blockId) return tasks.find((t) => t.blockId === source.blockId) ?? null;
+
+  const atLine = tasks.find((t) => t.line === source.line);
+  if (atLine?.text === text) return atLine;
+  const matches = tasks.filter((t) => t.text === text);
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Replace the checkbox marker of a task line
+ */
+export function setInlineTaskMarker(content: string, task: InlineTask, marker: string): string {
+  const lines = content.split("\n");
+  const line = lines[task.line];
+  lines[task.line] = line.slice(0, task.markerCh) + marker + line.slice(line.indexOf("]", task.markerCh));
+  return lines.join("\n");
+}
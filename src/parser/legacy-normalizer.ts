@@ -0,0 +1,182 @@
+// ============================================================================
+// Legacy Timeline Normalizer
+//
+// Rewrites timestamp styles from journals kept before Temporal Drift into the
+// "HH:mm text" + indented body grammar. Pure text transform; frontmatter and
+// code blocks are never touched, and normalized output matches nothing here,
+// so running it twice changes nothing.
+//
+// Styles:
+// - "- 10:30 text", "* 10:30 text"    bullet logs
+// - "**10:30** text"                   bold times (also inside bullets)
+// - "- 10.30 - text", "9.30pm text"    dot separators (a bullet with a range or
+//                                      separator, or a.m./p.m.)
+// - "## 10:30" + lines below           one heading per hour/entry
+// ============================================================================
+
+import { FRONTMATTER_RE, isTimeLine, parseTimeToken } from "./daily-note-parser";
+
+export type LegacyStyle = "bullet" | "bold-time" | "dot-separator" | "hour-heading";
+
+export const LEGACY_STYLE_LABELS: Record<LegacyStyle, string> = {
+  bullet: "Bullet logs",
+  "bold-time": "Bold times",
+  "dot-separator": "Dot separators",
+  "hour-heading": "Hour headings",
+};
+
+export interface LegacyChange {
+  line: number; // 0-based, in the original content
+  style: LegacyStyle;
+  before: string;
+  after: string;
+}
+
+export interface NormalizationResult {
+  content: string;
+  changes: LegacyChange[];
+}
+
+const MERIDIEM = "\\s?[aApP]\\.?[mM]\\.?";
+const T = `\\d{1,2}[:.]\\d{2}(?:${MERIDIEM})?`;
+// "3.14 is pi", "1.10 Scope" and "- 12.50 lunch" are not times: outside bold,
+// a dot time needs a.m./p.m., or a bullet/heading plus a range or separator
+const DOT_T = "\\d{1,2}\\.\\d{2}";
+const START_T = `\\d{1,2}:\\d{2}(?:${MERIDIEM})?|${DOT_T}${MERIDIEM}`;
+// time, optional range end, then an optional ":" / "-" / "|" separator before the text
+const TIME_PART = `(${T})(?:\\s*[–—-]\\s*(${T}))?`;
+const START_PART = `(${START_T})(?:\\s*[–—-]\\s*(${T}))?`;
+const SEPARATOR = "(?:\\s*[:|–—-](?=\\s)|\\s*:)?\\s*";
+// Dot time followed by a range (with optional separator) or a required separator
+const DOT_PART = `(${DOT_T})(?:\\s*[–—-]\\s*(${T})(?=[\\s:]|$)${SEPARATOR}|\\s*(?:[:|–—-](?=\\s)|:)\\s*)`;
+
+const HOUR_HEADING_RE = new RegExp(`^#{2,6}\\s+(?:\\*\\*)?${START_PART}(?:\\*\\*)?${SEPARATOR}(.*)$`);
+const DOT_HOUR_HEADING_RE = new RegExp(`^#{2,6}\\s+${DOT_PART}(.*)$`);
+const BOLD_RE = new RegExp(`^(?:[-*+]\\s+)?\\*\\*${TIME_PART}\\*\\*${SEPARATOR}(.*)$`);
+const BULLET_RE = new RegExp(`^[-*+]\\s+${START_PART}(?=[\\s:]|$)${SEPARATOR}(.*)$`);
+const DOT_BULLET_RE = new RegExp(`^[-*+]\\s+${DOT_PART}(.*)$`);
+const DOT_MERIDIEM_RE = new RegExp(`^(?:[-*+]\\s+)?(${DOT_T}${MERIDIEM})(?:\\s*[–—-]\\s*(${T}))?(?=[\\s:]|$)${SEPARATOR}(.*)$`);
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const HEADING_RE = /^#{1,6}\s/;
+const BODY_INDENT = "    ";
+
+/**
+ * Canonical "HH:mm" for a legacy time ("9.30", "10:30 pm"), or null if it
+ * isn't a real time of day
+ */
+function canonicalTime(raw: string): string | null {
+  const parsed = parseTimeToken(raw.replace(".", ":"));
+  if (!parsed) return null;
+  const [hh, mm] = parsed.time.split(":").map(Number);
+  return hh < 24 && mm < 60 ? parsed.time : null;
+}
+
+function formatHead(start: string, end: string | undefined, text: string): string | null {
+  const from = canonicalTime(start);
+  const to = end !== undefined ? canonicalTime(end) : undefined;
+  if (!from || to === null) return null;
+  const time = to ? `${from}–${to}` : from;
+  return text.trim() ? `${time} ${text.trim()}` : time;
+}
+
+/**
+ * Convert one line, or return null when it isn't a legacy entry line
+ */
+function convertLine(line: string): { style: LegacyStyle; head: string } | null {
+  const candidates: [LegacyStyle, RegExp][] = [
+    ["bold-time", BOLD_RE],
+    ["dot-separator", DOT_MERIDIEM_RE],
+    ["dot-separator", DOT_BULLET_RE],
+    ["bullet", BULLET_RE],
+  ];
+  for (const [style, re] of candidates) {
+    const m = line.match(re);
+    if (!m) continue;
+    const head = formatHead(m[1], m[2], m[3]);
+    if (head) return { style, head };
+  }
+  return null;
+}
+
+// Lines that end an hour heading's body
+function isEntryBoundary(line: string): boolean {
+  return HEADING_RE.test(line) || FENCE_RE.test(line) || isTimeLine(line) || convertLine(line) !== null;
+}
+
+/**
+ * Normalize every legacy timestamp line in a note
+ */
+export function normalizeLegacyTimeline(content: string): NormalizationResult {
+  const fm = content.match(FRONTMATTER_RE);
+  const frontmatter = fm ? fm[0] : "";
+  const offset = frontmatter ? frontmatter.split("\n").length - 1 : 0;
+  const lines = content.slice(frontmatter.length).split("\n");
+
+  const out: string[] = [];
+  const changes: LegacyChange[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Code blocks (fences included) are copied as-is
+    const isFence = FENCE_RE.test(line);
+    if (isFence) inFence = !inFence;
+    if (inFence || isFence) {
+      out.push(line);
+      continue;
+    }
+
+    // "## 10:30 Standup" + unindented lines below -> entry with indented body
+    const heading = line.match(HOUR_HEADING_RE) ?? line.match(DOT_HOUR_HEADING_RE);
+    const headingHead = heading ? formatHead(heading[1], heading[2], heading[3]) : null;
+    if (heading && headingHead) {
+      let head = headingHead;
+      let j = i + 1;
+
+      // A bare "## 10:00" takes its first content line as the entry text
+      if (!heading[3].trim()) {
+        while (j < lines.length && lines[j].trim() === "") j++;
+        const first = lines[j];
+        if (first !== undefined && !isEntryBoundary(first)) {
+          head = `${head} ${first.trim().replace(/^[-*+]\s+/, "")}`;
+          j++;
+        } else {
+          j = i + 1;
+        }
+      }
+
+      const body: string[] = [];
+      let end = j;
+      for (let k = j; k < lines.length; k++) {
+        const next = lines[k];
+        if (isEntryBoundary(next)) break;
+        body.push(next.trim() === "" ? "" : `${BODY_INDENT}${next}`);
+        end = k + 1;
+      }
+      // Trailing blank lines separate entries; keep them unindented after the body
+      while (body.length > 0 && body[body.length - 1] === "") {
+        body.pop();
+        end--;
+      }
+
+      changes.push({ line: i + offset, style: "hour-heading", before: line, after: head });
+      out.push(head, ...body);
+      i = end - 1;
+      continue;
+    }
+
+    const converted = convertLine(line);
+    if (converted) {
+      changes.push({ line: i + offset, style: converted.style, before: line, after: converted.head });
+      out.push(converted.head);
+      continue;
+    }
+
+    out.push(line);
+  }
+
+  if (changes.length === 0) return { content, changes };
+  return { content: frontmatter + out.join("\n"), changes };
+}
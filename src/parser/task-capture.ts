@@ -0,0 +1,111 @@
+// ============================================================================
+// Task Capture
+//
+// Turns a quick-capture phrase into task fields:
+//
+//   Send deck to Anna tomorrow !now #apollo ~30m +[[Apollo]] @office
+//
+//   !now / !next / !later        priority
+//   #tag                         tags
+//   ~30m, ~1h30m, ~2h            estimate
+//   +Apollo, +[[Apollo Launch]]  project
+//   @office                      context
+//   today, tomorrow, friday, next week, in 3 days, 2026-10-20
+//                                due date (optionally after "due", "on" or "by")
+//
+// Whatever is left is the title.
+// ============================================================================
+
+import { addDays, formatDate, getWeekStart, parseDate, parseDuration } from "../utils/time";
+import { parseWikilinkDisplay } from "./daily-note-parser";
+
+export interface CapturedTask {
+  title: string;
+  due?: string; // YYYY-MM-DD
+  priority?: "now" | "next" | "later";
+  tags: string[];
+  project?: string; // link target
+  estimate?: number; // minutes
+  context?: string;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const PRIORITY_RE = /(?:^|\s)!(now|next|later)(?=\s|$)/i;
+const TAG_RE = /(?:^|\s)#([\w/-]+)/g;
+const ESTIMATE_RE = /(?:^|\s)~(\S+)/;
+const PROJECT_RE = /(?:^|\s)\+(\[\[[^\]]+\]\]|[^\s[]+)/;
+const CONTEXT_RE = /(?:^|\s)(@[\w-]+)/;
+const DATE_RE = new RegExp(
+  `(?:^|\\s)(?:(?:due|on|by)\\s+)?(today|tomorrow|next week|in \\d+ (?:days?|weeks?)|\\d{4}-\\d{2}-\\d{2}|(?:next )?(?:${WEEKDAYS.join("|")}))(?=\\s|$)`,
+  "i"
+);
+
+/**
+ * Due date for a date phrase, relative to today (YYYY-MM-DD)
+ */
+function resolveDuePhrase(phrase: string, today: string): string | undefined {
+  const text = phrase.toLowerCase();
+  const base = parseDate(today);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  if (text === "today") return today;
+  if (text === "tomorrow") return formatDate(addDays(base, 1));
+  if (text === "next week") return formatDate(addDays(getWeekStart(base), 7));
+
+  const relative = text.match(/^in (\d+) (day|week)s?$/);
+  if (relative) return formatDate(addDays(base, Number(relative[1]) * (relative[2] === "week" ? 7 : 1)));
+
+  // "friday" is the next Friday after today; "next friday" the one a week later
+  const weekday = text.match(/^(next )?(\w+)$/);
+  const index = weekday ? WEEKDAYS.indexOf(weekday[2]) : -1;
+  if (index < 0) return undefined;
+  const ahead = ((index - base.getDay() + 6) % 7) + 1;
+  return formatDate(addDays(base, ahead + (weekday![1] ? 7 : 0)));
+}
+
+/**
+ * Parse a capture phrase. The title keeps the words in their original order
+ * with every recognised token taken out.
+ */
+export function parseTaskCapture(input: string, today: string): CapturedTask {
+  let rest = ` ${input.trim()} `;
+  const take = (re: RegExp): RegExpMatchArray | null => {
+    const m = rest.match(re);
+    if (m) rest = rest.replace(m[0], " ");
+    return m;
+  };
+
+  // Take a token only if its value makes sense ("~soon" stays in the title)
+  const takeIf = <T>(re: RegExp, parse: (m: RegExpMatchArray) => T | undefined): T | undefined => {
+    const m = rest.match(re);
+    const value = m ? parse(m) : undefined;
+    if (value !== undefined) rest = rest.replace(m![0], " ");
+    return value;
+  };
+
+  const task: CapturedTask = { title: "", tags: [] };
+
+  const priority = take(PRIORITY_RE);
+  if (priority) task.priority = priority[1].toLowerCase() as CapturedTask["priority"];
+
+  const estimate = takeIf(ESTIMATE_RE, (m) => parseDuration(m[1]));
+  if (estimate) task.estimate = estimate;
+
+  const project = take(PROJECT_RE);
+  if (project) {
+    const link = project[1].match(/^\[\[([^\]]+)\]\]$/);
+    task.project = link ? parseWikilinkDisplay(link[1]).target : project[1];
+  }
+
+  const context = take(CONTEXT_RE);
+  if (context) task.context = context[1];
+
+  task.tags = [...new Set([...rest.matchAll(TAG_RE)].map((m) => m[1]))];
+  rest = rest.replace(TAG_RE, " ");
+
+  const due = takeIf(DATE_RE, (m) => resolveDuePhrase(m[1], today));
+  if (due) task.due = due;
+
+  task.title = rest.replace(/\s+/g, " ").trim();
+  return task;
+}
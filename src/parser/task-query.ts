@@ -0,0 +1,311 @@
+// ============================================================================
+// Task Query
+//
+// The small query language of ```temporal-drift-tasks``` blocks, one clause
+// per line (all filters must match):
+//
+//   status: open                 open | closed | status ids or names, comma-separated
+//   priority: now, next
+//   due before: +7d              before | after | on: YYYY-MM-DD, today, tomorrow,
+//   scheduled on: today          yesterday, +3d, -1w, +2m, +1y
+//   due: none                    none | any
+//   project: [[Apollo]]          "this" for the note containing the block
+//   waiting on: [[Anna]]
+//   tag: #errand
+//   context: @home
+//   path includes: Projects
+//   blocked: no
+//   sort: due desc               due | scheduled | priority | status | title | created
+//   group by: priority           priority | status | project | context | due
+//   limit: 10
+//
+// Relative dates are kept as written and resolved whenever the query runs.
+// ============================================================================
+
+import { TaskMeta, TaskStatusConfig } from "../types";
+import { getTaskStatus, isClosedStatus } from "../utils/task-status";
+import { addDays, formatDate, parseDate } from "../utils/time";
+import { parseWikilinkDisplay } from "./daily-note-parser";
+
+export type TaskSortKey = "due" | "scheduled" | "priority" | "status" | "title" | "created";
+export type TaskGroupKey = "priority" | "status" | "project" | "context" | "due";
+
+export type TaskQueryFilter =
+  | { field: "status" | "priority"; values: string[] }
+  | { field: "due" | "scheduled"; op: "before" | "after" | "on"; date: string }
+  | { field: "due" | "scheduled"; op: "none" | "any" }
+  | { field: "project" | "waitingOn"; target: string }
+  | { field: "tag" | "context" | "path"; value: string }
+  | { field: "blocked"; value: boolean };
+
+export interface TaskQuery {
+  filters: TaskQueryFilter[];
+  sort: { key: TaskSortKey; descending: boolean }[];
+  groupBy?: TaskGroupKey;
+  limit?: number;
+}
+
+export interface TaskQueryGroup {
+  label: string; // empty without "group by"
+  tasks: TaskMeta[];
+}
+
+/**
+ * What a query needs from its surroundings when it runs
+ */
+export interface TaskQueryContext {
+  today: string; // YYYY-MM-DD
+  sourcePath: string; // the note containing the block
+  statuses: TaskStatusConfig[];
+  isBlocked: (task: TaskMeta) => boolean;
+  resolveLink: (link: string, fromPath: string) => string; // link target -> note path
+}
+
+export const THIS_NOTE = "this";
+
+const PRIORITIES = ["now", "next", "later"];
+const SORT_KEYS: TaskSortKey[] = ["due", "scheduled", "priority", "status", "title", "created"];
+const GROUP_KEYS: TaskGroupKey[] = ["priority", "status", "project", "context", "due"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE_RE = /^([+-])(\d+)\s*([dwmy])$/;
+
+function list(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function linkTarget(value: string): string {
+  const link = value.match(/^\[\[([^\]]+)\]\]$/);
+  return link ? parseWikilinkDisplay(link[1]).target : value;
+}
+
+/**
+ * Resolve a date expression ("+7d", "today", "2026-10-20") against today,
+ * or null if it isn't one
+ */
+export function resolveQueryDate(expression: string, today: string): string | null {
+  const text = expression.trim().toLowerCase();
+  if (DATE_RE.test(text)) return text;
+  if (text === "today") return today;
+  if (text === "tomorrow") return formatDate(addDays(parseDate(today), 1));
+  if (text === "yesterday") return formatDate(addDays(parseDate(today), -1));
+
+  const m = text.match(RELATIVE_DATE_RE);
+  if (!m) return null;
+  const n = Number(m[2]) * (m[1] === "-" ? -1 : 1);
+  const base = parseDate(today);
+  switch (m[3]) {
+    case "d":
+      return formatDate(addDays(base, n));
+    case "w":
+      return formatDate(addDays(base, n * 7));
+    case "m":
+      return formatDate(new Date(base.getFullYear(), base.getMonth() + n, base.getDate()));
+    default:
+      return formatDate(new Date(base.getFullYear() + n, base.getMonth(), base.getDate()));
+  }
+}
+
+/**
+ * Parse a query. Lines that can't be understood are reported in errors and
+ * otherwise ignored.
+ */
+export function parseTaskQuery(source: string): { query: TaskQuery; errors: string[] } {
+  const query: TaskQuery = { filters: [], sort: [] };
+  const errors: string[] = [];
+
+  for (const raw of source.split("\n")) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const m = line.match(/^([a-z ]+?)\s*:\s*(.*)$/i);
+    const key = m?.[1].toLowerCase().replace(/\s+/g, " ");
+    const value = m?.[2].trim() ?? "";
+    const fail = (reason: string) => errors.push(`${line}: ${reason}`);
+    if (!key) {
+      fail('expected "key: value"');
+      continue;
+    }
+
+    const dateClause = key.match(/^(due|scheduled)(?: (before|after|on))?$/);
+    if (dateClause) {
+      const field = dateClause[1] as "due" | "scheduled";
+      const op = dateClause[2] as "before" | "after" | "on" | undefined;
+      if (op) {
+        if (resolveQueryDate(value, "2000-01-01") === null) fail("unknown date");
+        else query.filters.push({ field, op, date: value });
+      } else if (value === "none" || value === "any") {
+        query.filters.push({ field, op: value });
+      } else {
+        fail('expected "none" or "any"');
+      }
+      continue;
+    }
+
+    switch (key) {
+      case "status":
+        query.filters.push({ field: "status", values: list(value) });
+        break;
+      case "priority": {
+        const values = list(value);
+        if (values.some((v) => !PRIORITIES.includes(v))) fail("expected now, next or later");
+        else query.filters.push({ field: "priority", values });
+        break;
+      }
+      case "project":
+        query.filters.push({ field: "project", target: linkTarget(value) });
+        break;
+      case "waiting on":
+        query.filters.push({ field: "waitingOn", target: linkTarget(value) });
+        break;
+      case "tag":
+        query.filters.push({ field: "tag", value: value.replace(/^#/, "") });
+        break;
+      case "context":
+        query.filters.push({ field: "context", value });
+        break;
+      case "path includes":
+        query.filters.push({ field: "path", value });
+        break;
+      case "blocked":
+        if (value !== "yes" && value !== "no") fail('expected "yes" or "no"');
+        else query.filters.push({ field: "blocked", value: value === "yes" });
+        break;
+      case "sort": {
+        const [sortKey, direction] = value.toLowerCase().split(/\s+/);
+        if (!SORT_KEYS.includes(sortKey as TaskSortKey)) fail(`expected ${SORT_KEYS.join(", ")}`);
+        else query.sort.push({ key: sortKey as TaskSortKey, descending: direction === "desc" });
+        break;
+      }
+      case "group by":
+        if (!GROUP_KEYS.includes(value.toLowerCase() as TaskGroupKey)) fail(`expected ${GROUP_KEYS.join(", ")}`);
+        else query.groupBy = value.toLowerCase() as TaskGroupKey;
+        break;
+      case "limit":
+        if (!/^\d+$/.test(value)) fail("expected a number");
+        else query.limit = Number(value);
+        break;
+      default:
+        fail("unknown clause");
+    }
+  }
+
+  return { query, errors };
+}
+
+function matches(task: TaskMeta, filter: TaskQueryFilter, ctx: TaskQueryContext): boolean {
+  switch (filter.field) {
+    case "status":
+      return filter.values.some((v) => {
+        if (v === "open" || v === "closed") return isClosedStatus(ctx.statuses, task.status) === (v === "closed");
+        const status = getTaskStatus(ctx.statuses, task.status);
+        return task.status.toLowerCase() === v || status?.name.toLowerCase() === v;
+      });
+    case "priority":
+      return filter.values.includes(task.priority);
+    case "due":
+    case "scheduled": {
+      const value = task[filter.field];
+      if (!("date" in filter)) return filter.op === "none" ? !value : !!value;
+      const date = resolveQueryDate(filter.date, ctx.today);
+      if (!value || !date) return false;
+      const day = value.slice(0, 10);
+      return filter.op === "before" ? day < date : filter.op === "after" ? day > date : day === date;
+    }
+    case "project":
+    case "waitingOn": {
+      const value = task[filter.field];
+      if (!value) return false;
+      const target = filter.target === THIS_NOTE ? ctx.sourcePath : ctx.resolveLink(filter.target, ctx.sourcePath);
+      return ctx.resolveLink(value, task.source?.path ?? task.path) === target;
+    }
+    case "tag":
+      return task.tags.some((t) => t.toLowerCase() === filter.value.toLowerCase());
+    case "context":
+      return task.context?.toLowerCase() === filter.value.toLowerCase();
+    case "path":
+      return (task.source?.path ?? task.path).toLowerCase().includes(filter.value.toLowerCase());
+    case "blocked":
+      return ctx.isBlocked(task) === filter.value;
+  }
+}
+
+// Missing values sort last
+function compareOptional(a: string | undefined, b: string | undefined): number {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a.localeCompare(b);
+}
+
+function compare(a: TaskMeta, b: TaskMeta, key: TaskSortKey, ctx: TaskQueryContext): number {
+  switch (key) {
+    case "priority":
+      return PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority);
+    case "status": {
+      const index = (t: TaskMeta) => ctx.statuses.findIndex((s) => s.id === t.status) >>> 0; // unknown last
+      return index(a) - index(b);
+    }
+    case "title":
+      return a.title.localeCompare(b.title);
+    default:
+      return compareOptional(a[key], b[key]);
+  }
+}
+
+function groupOf(task: TaskMeta, key: TaskGroupKey, ctx: TaskQueryContext): string {
+  switch (key) {
+    case "priority":
+      return task.priority.charAt(0).toUpperCase() + task.priority.slice(1);
+    case "status":
+      return getTaskStatus(ctx.statuses, task.status)?.name ?? task.status;
+    case "project":
+      return task.project ?? "No project";
+    case "context":
+      return task.context ?? "No context";
+    case "due":
+      return task.due ?? "No due date";
+  }
+}
+
+// Groups in priority/status order, others alphabetically with "No ..." last
+function compareGroups(a: TaskMeta, b: TaskMeta, key: TaskGroupKey, ctx: TaskQueryContext): number {
+  return key === "priority" || key === "status" ? compare(a, b, key, ctx) : compareOptional(a[key], b[key]);
+}
+
+/**
+ * Filter, sort, limit and group tasks. Without a sort clause tasks are
+ * ordered by priority, then due date.
+ */
+export function runTaskQuery(query: TaskQuery, tasks: TaskMeta[], ctx: TaskQueryContext): TaskQueryGroup[] {
+  const sort: TaskQuery["sort"] =
+    query.sort.length > 0
+      ? query.sort
+      : [
+          { key: "priority", descending: false },
+          { key: "due", descending: false },
+        ];
+  const result = tasks
+    .filter((task) => query.filters.every((filter) => matches(task, filter, ctx)))
+    .sort((a, b) => {
+      for (const { key, descending } of sort) {
+        const order = compare(a, b, key, ctx);
+        if (order !== 0) return descending ? -order : order;
+      }
+      return a.title.localeCompare(b.title);
+    })
+    .slice(0, query.limit);
+
+  if (!query.groupBy) return [{ label: "", tasks: result }];
+
+  const groups = new Map<string, TaskMeta[]>();
+  for (const task of result) {
+    const label = groupOf(task, query.groupBy, ctx);
+    groups.set(label, [...(groups.get(label) ?? []), task]);
+  }
+  return [...groups]
+    .sort(([, a], [, b]) => compareGroups(a[0], b[0], query.groupBy!, ctx))
+    .map(([label, grouped]) => ({ label, tasks: grouped }));
+}
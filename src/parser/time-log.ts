@@ -0,0 +1,50 @@
+// ============================================================================
+// Time Log
+//
+// The "## Time log" section of a task note: one line per timer session,
+//
+//   - 2026-10-19 09:00–10:30 (1h 30m)
+//
+// appended by the task timer. Pure text transforms.
+// ============================================================================
+
+export const TIME_LOG_HEADING = "## Time log";
+
+const HEADING_RE = /^#{1,2}\s/;
+
+// Lines [start, end) of the section, heading included
+function findTimeLog(lines: string[]): { start: number; end: number } | null {
+  const start = lines.findIndex((l) => l.trim() === TIME_LOG_HEADING);
+  if (start < 0) return null;
+  let end = start + 1;
+  while (end < lines.length && !HEADING_RE.test(lines[end])) end++;
+  return { start, end };
+}
+
+/**
+ * Add a line at the end of the time log, creating the section at the end of
+ * the note if needed
+ */
+export function appendTimeLogLine(content: string, line: string): string {
+  const lines = content.split("\n");
+  const section = findTimeLog(lines);
+  if (!section) return `${content.trimEnd()}\n\n${TIME_LOG_HEADING}\n\n${line}\n`;
+
+  // After the last non-blank line of the section
+  let at = section.end;
+  while (at > section.start + 1 && lines[at - 1].trim() === "") at--;
+  const block = at === section.start + 1 ? ["", line] : [line];
+  lines.splice(at, 0, ...block);
+  return lines.join("\n");
+}
+
+/**
+ * The note without its time log (for a recurring task's next instance)
+ */
+export function removeTimeLog(content: string): string {
+  const lines = content.split("\n");
+  const section = findTimeLog(lines);
+  if (!section) return content;
+  lines.splice(section.start, section.end - section.start);
+  return lines.join("\n").trimEnd() + "\n";
+}
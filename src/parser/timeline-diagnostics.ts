@@ -0,0 +1,96 @@
+// ============================================================================
+// Timeline Diagnostics
+//
+// Validates a daily note against the shared timestamp grammar and reports
+// problems the renderers silently tolerate.
+// ============================================================================
+
+import { DaySectionConfig, TimelineEntry } from "../types";
+import { parseDailyNote } from "./daily-note-parser";
+
+export type TimelineDiagnosticKind = "invalid-time" | "duplicate-time" | "orphaned-line" | "out-of-order";
+
+export interface TimelineDiagnostic {
+  kind: TimelineDiagnosticKind;
+  line: number; // 0-based
+  message: string;
+}
+
+/**
+ * Check a normalized "HH:mm[:ss]" time. Hours past 23 are only valid for
+ * after-midnight entries that still belong to the day ("24:40" with a 04:00 day start).
+ */
+function isValidTime(time: string, dayStartMinutes: number): boolean {
+  const [h, m, s] = time.split(":").map(Number);
+  if (m > 59 || (s !== undefined && s > 59)) return false;
+  return h * 60 + m < 24 * 60 + dayStartMinutes;
+}
+
+function checkTimes(entry: TimelineEntry, dayStartMinutes: number): string | null {
+  if (!isValidTime(entry.time, dayStartMinutes)) return `Invalid time "${entry.rawTime}"`;
+  if (entry.endTime !== undefined && !isValidTime(entry.endTime, dayStartMinutes)) {
+    return `Invalid range end "${entry.endTime}"`;
+  }
+  return null;
+}
+
+/**
+ * Diagnose a daily note's timeline. Results are ordered by line.
+ */
+export function diagnoseTimeline(
+  content: string,
+  dayStartsAt = "00:00",
+  sectionConfigs?: DaySectionConfig[]
+): TimelineDiagnostic[] {
+  const doc = parseDailyNote(content, sectionConfigs);
+  const lines = content.split("\n");
+  const [startH, startM] = dayStartsAt.split(":").map(Number);
+  const dayStartMinutes = (startH || 0) * 60 + (startM || 0);
+  const diagnostics: TimelineDiagnostic[] = [];
+
+  const seen = new Map<string, TimelineEntry>();
+  let previous: TimelineEntry | null = null;
+
+  for (const entry of doc.entries) {
+    const invalid = checkTimes(entry, dayStartMinutes);
+    if (invalid) {
+      diagnostics.push({ kind: "invalid-time", line: entry.lineStart, message: invalid });
+    }
+
+    const first = seen.get(entry.time);
+    if (first) {
+      diagnostics.push({
+        kind: "duplicate-time",
+        line: entry.lineStart,
+        message: `Duplicate time ${entry.rawTime} (also on line ${first.lineStart + 1})`,
+      });
+    } else {
+      seen.set(entry.time, entry);
+    }
+
+    if (previous && entry.seconds < previous.seconds) {
+      diagnostics.push({
+        kind: "out-of-order",
+        line: entry.lineStart,
+        message: `${entry.rawTime} comes after ${previous.rawTime}`,
+      });
+    }
+    previous = entry;
+  }
+
+  // Indented lines outside any entry or section lost their timestamp
+  const owned = new Array<boolean>(lines.length).fill(false);
+  for (const block of [...doc.entries, ...doc.sections]) {
+    for (let i = block.lineStart; i <= block.lineEnd; i++) owned[i] = true;
+  }
+  for (let i = 0; i < lines.length; i++) {
+    if (owned[i] || lines[i].trim() === "" || !/^\s+/.test(lines[i])) continue;
+    diagnostics.push({
+      kind: "orphaned-line",
+      line: i,
+      message: `Indented line without a timestamp entry: "${lines[i].trim()}"`,
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,186 @@
+// ============================================================================
+// Timeline Edits
+//
+// Pure text transforms on daily notes, built on the shared parser. Callers
+// run these inside vault.process() so the read-modify-write stays atomic.
+// ============================================================================
+
+import { CalendarEvent, DaySectionConfig, TimeFormat, TimelineEntry } from "../types";
+import { formatTime } from "../utils/time";
+import { findSectionConfig, parseDailyNote, parseTimeLine } from "./daily-note-parser";
+
+export interface InsertResult {
+  content: string;
+  line: number; // 0-based line of the inserted entry
+}
+
+/**
+ * Insert "time text" at its chronological position among the existing
+ * timestamp blocks. Indented bodies stay attached to their entries and
+ * sections after the timeline (e.g. "## Notes") stay below it.
+ */
+export function insertEntry(
+  content: string,
+  time: string,
+  text: string,
+  sectionConfigs?: DaySectionConfig[]
+): InsertResult {
+  const entryLine = `${time} ${text}`;
+  const doc = parseDailyNote(content, sectionConfigs);
+  const lines = content.split("\n");
+  // Ranges ("09:00–10:30") sort by their start
+  const seconds = parseTimeLine(entryLine)?.seconds ?? Number.POSITIVE_INFINITY;
+
+  const isBlank = (idx: number) => idx < 0 || idx >= lines.length || lines[idx].trim() === "";
+
+  // Insert a block at `at`, padding with blank lines so entries stay separated
+  const insertAt = (at: number): InsertResult => {
+    const block: string[] = [];
+    if (at > 0 && !isBlank(at - 1)) block.push("");
+    const line = at + block.length;
+    block.push(entryLine);
+    if (at < lines.length && !isBlank(at)) block.push("");
+    lines.splice(at, 0, ...block);
+    return { content: lines.join("\n"), line };
+  };
+
+  if (doc.entries.length > 0) {
+    // Before the first entry that starts later (equal times keep insertion order)
+    const later = doc.entries
+      .filter((e) => e.seconds > seconds)
+      .sort((a, b) => a.lineStart - b.lineStart)[0];
+    if (later) return insertAt(later.lineStart);
+
+    // Otherwise right after the last entry's body
+    const last = doc.entries.reduce((a, b) => (b.lineEnd > a.lineEnd ? b : a));
+    return insertAt(last.lineEnd + 1);
+  }
+
+  // No timeline yet: start it below the "before" sections...
+  const header = doc.sections.filter((s) => s.kind === "before").pop();
+  if (header) {
+    let end = header.lineEnd;
+    while (end > header.lineStart && isBlank(end)) end--;
+    return insertAt(end + 1);
+  }
+
+  // ...and above the "after" sections
+  const footer = doc.sections.find((s) => s.kind === "after");
+  if (footer) return insertAt(footer.lineStart);
+
+  const trimmed = content.trimEnd();
+  const prefix = trimmed ? `${trimmed}\n\n` : "";
+  return {
+    content: prefix + entryLine,
+    line: prefix.split("\n").length - 1,
+  };
+}
+
+/**
+ * Remove an entry (with its body), keeping a single blank line between the
+ * entries around it
+ */
+export function removeEntry(content: string, entry: TimelineEntry): string {
+  const lines = content.split("\n");
+  let start = entry.lineStart;
+  const end = entry.lineEnd + 1;
+  const blank = (idx: number) => idx >= 0 && idx < lines.length && lines[idx].trim() === "";
+  if (blank(start - 1) && (blank(end) || end >= lines.length)) start--;
+  lines.splice(start, end - start);
+  return lines.join("\n");
+}
+
+/**
+ * Reorder timeline entries chronologically. Each entry moves together with its
+ * indented body; everything else (header and footer sections, blank lines
+ * and loose text) stays where it is. Entries with equal times keep their order.
+ */
+export function sortEntries(content: string, sectionConfigs?: DaySectionConfig[]): string {
+  const doc = parseDailyNote(content, sectionConfigs);
+  if (doc.entries.length < 2) return content;
+
+  const lines = content.split("\n");
+  const slots = doc.entries;
+  const sorted = slots
+    .map((entry, idx) => ({ entry, idx }))
+    .sort((a, b) => a.entry.seconds - b.entry.seconds || a.idx - b.idx)
+    .map(({ entry }) => lines.slice(entry.lineStart, entry.lineEnd + 1));
+
+  // Fill each entry's slot with the entry that belongs there in time order
+  const out: string[] = [];
+  let slot = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (slot < slots.length && i === slots[slot].lineStart) {
+      out.push(...sorted[slot]);
+      i = slots[slot].lineEnd;
+      slot++;
+      continue;
+    }
+    out.push(lines[i]);
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Replace the content of a configured section, adding the heading in its
+ * configured position if the note doesn't have it yet. Empty text leaves an
+ * existing heading in place and never adds a new one.
+ */
+export function setSectionContent(
+  content: string,
+  heading: string,
+  text: string,
+  sectionConfigs: DaySectionConfig[]
+): string {
+  const config = sectionConfigs.find((c) => c.heading === heading);
+  if (!config) return content;
+
+  const doc = parseDailyNote(content, sectionConfigs);
+  const lines = content.split("\n");
+  const body = text
+    .split("\n")
+    .map((l) => l.trimEnd())
+    .join("\n")
+    .trim();
+  const block = body ? ["", ...body.split("\n"), ""] : [""];
+
+  const existing = doc.sections.find((s) => findSectionConfig(s.heading, sectionConfigs) === config);
+  if (existing) {
+    lines.splice(existing.lineStart + 1, existing.lineEnd - existing.lineStart, ...block);
+    return lines.join("\n");
+  }
+  if (!body) return content;
+
+  // Header sections go after the other header sections (or above the timeline),
+  // footer sections at the end of the note
+  let at = lines.length;
+  if (config.position === "before") {
+    const lastBefore = doc.sections.filter((s) => s.kind === "before").pop();
+    const firstAfter = doc.sections.find((s) => s.kind === "after");
+    if (lastBefore) at = lastBefore.lineEnd + 1;
+    else if (doc.entries.length > 0) at = doc.entries[0].lineStart;
+    else if (firstAfter) at = firstAfter.lineStart;
+  }
+
+  const insert = [`## ${config.heading}`, ...block];
+  if (at > 0 && lines[at - 1].trim() !== "") insert.unshift("");
+  lines.splice(at, 0, ...insert);
+  return lines.join("\n");
+}
+
+/**
+ * Timeline line for a calendar event:
+ * "09:00–09:30 [[Standup ~id]] with [[Anna Meyer]], [[Tom Schmidt]]"
+ */
+export function formatEventEntry(event: CalendarEvent, timeFormat: TimeFormat): string {
+  const clean = (text: string) => text.replace(/[[\]|#^]/g, "").trim();
+
+  const start = formatTime(event.start, timeFormat);
+  const time = event.end > event.start ? `${start}–${formatTime(event.end, timeFormat)}` : start;
+  const id = /^[a-zA-Z0-9]+$/.test(event.id) ? ` ~${event.id}` : "";
+  const people = event.participants.map((p) => clean(p.name || p.email)).filter(Boolean);
+
+  const title = `[[${clean(event.title) || "Event"}${id}]]`;
+  return people.length > 0 ? `${time} ${title} with ${people.map((p) => `[[${p}]]`).join(", ")}` : `${time} ${title}`;
+}
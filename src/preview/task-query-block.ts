@@ -0,0 +1,93 @@
+// ============================================================================
+// Task Query Block
+//
+// ```temporal-drift-tasks
+// project: this
+// status: open
+// group by: priority
+// ```
+//
+// Renders the matching tasks as a live, checkable list (see parser/task-query
+// for the query language). The list re-renders whenever the task index changes.
+// ============================================================================
+
+import { MarkdownRenderChild } from "obsidian";
+import type TemporalDriftPlugin from "../main";
+import { TaskQuery, TaskQueryContext, parseTaskQuery, runTaskQuery } from "../parser/task-query";
+import { TaskItemRenderer } from "../views/components/task-item";
+import { formatDate, getLogicalDate } from "../utils/time";
+
+export const TASK_QUERY_LANGUAGE = "temporal-drift-tasks";
+
+class TaskQueryBlock extends MarkdownRenderChild {
+  private plugin: TemporalDriftPlugin;
+  private sourcePath: string;
+  private query: TaskQuery;
+  private errors: string[];
+
+  constructor(plugin: TemporalDriftPlugin, containerEl: HTMLElement, source: string, sourcePath: string) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.sourcePath = sourcePath;
+    ({ query: this.query, errors: this.errors } = parseTaskQuery(source));
+  }
+
+  onload(): void {
+    this.render();
+    this.registerEvent(this.plugin.taskIndex.on("changed", () => this.render()));
+    this.registerEvent(this.plugin.taskTimer.on("changed", () => this.render()));
+  }
+
+  private render(): void {
+    const { app, settings, taskIndex, taskTimer } = this.plugin;
+    const el = this.containerEl;
+    el.empty();
+    el.addClass("temporal-drift-task-query");
+
+    for (const error of this.errors) {
+      el.createDiv({ cls: "temporal-drift-task-query-error", text: error });
+    }
+
+    if (!taskIndex.isInitialized()) {
+      el.createDiv({ cls: "temporal-drift-loading", text: "Loading tasks..." });
+      return;
+    }
+
+    const ctx: TaskQueryContext = {
+      today: formatDate(getLogicalDate(new Date(), settings.dayStartsAt)),
+      sourcePath: this.sourcePath,
+      statuses: settings.taskStatuses,
+      isBlocked: (task) => taskIndex.isBlocked(task.path),
+      resolveLink: (link, fromPath) => app.metadataCache.getFirstLinkpathDest(link, fromPath)?.path ?? link,
+    };
+    const groups = runTaskQuery(this.query, taskIndex.getAll(), ctx);
+
+    if (groups.every((g) => g.tasks.length === 0)) {
+      el.createDiv({ cls: "temporal-drift-empty-section", text: "No matching tasks" });
+      return;
+    }
+
+    // Status and timer changes re-render through the "changed" events
+    const items = new TaskItemRenderer(app, settings, taskIndex, { taskTimer });
+    for (const group of groups) {
+      if (group.label) {
+        const header = el.createDiv({ cls: "temporal-drift-section-header" });
+        header.createSpan({ text: group.label, cls: "temporal-drift-section-title" });
+        header.createSpan({ text: `${group.tasks.length}`, cls: "temporal-drift-section-count" });
+      }
+      const list = el.createDiv({ cls: "temporal-drift-task-list" });
+      for (const task of group.tasks) {
+        items.render(list, task);
+      }
+    }
+  }
+}
+
+/**
+ * Register the ```temporal-drift-tasks``` code block
+ */
+export function registerTaskQueryBlock(plugin: TemporalDriftPlugin): void {
+  plugin.registerMarkdownCodeBlockProcessor(TASK_QUERY_LANGUAGE, (source, el, ctx) => {
+    ctx.addChild(new TaskQueryBlock(plugin, el, source, ctx.sourcePath));
+  });
+}
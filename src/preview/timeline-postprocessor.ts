@@ -11,56 +11,12 @@
 //   same entry.
 // ============================================================================
 
-import { MarkdownPostProcessorContext, MarkdownView, TFile, normalizePath } from "obsidian";
+import { MarkdownPostProcessorContext, MarkdownView, TFile } from "obsidian";
 import type TemporalDriftPlugin from "../main";
-
-type Participant = { target: string; display: string };
-
-type ParsedEntry = {
-  lineStart: number; // 0-based line index
-  lineEnd: number; // inclusive
-  time: string; // HH:mm
-  head: string;
-  title: string;
-  locationText: string;
-  participants: Participant[];
-  bodyLines: string[];
-};
-
-const TIME_LINE_RE = /^\s*(?:[-*+]\s+)?(\d{2}):(\d{2})\s+(.*)$/;
-const IS_TIME_LINE = (line: string) => /^\s*(?:[-*+]\s+)?\d{2}:\d{2}\s/.test(line);
-
-function parseWikilinkDisplay(raw: string): { target: string; display: string } {
-  const match = raw.match(/^([^|]+)(?:\|(.+))?$/);
-  const target = (match?.[1] ?? raw).trim();
-  const display = (match?.[2] ?? target.split("/").pop() ?? target).trim();
-  return { target, display };
-}
-
-function stripWikilinks(text: string): string {
-  return text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_m, p1: string, p2: string | undefined) => {
-    const display = (p2 ?? p1.split("/").pop() ?? p1).trim();
-    return display;
-  });
-}
-
-function stripEventIdSuffix(title: string): string {
-  return title.replace(/\s*~[a-zA-Z0-9]+$/, "").trim();
-}
-
-function extractPrimaryLink(head: string): { target: string; display: string } | null {
-  const m = head.match(/\[\[([^\]]+)\]\]/);
-  if (!m) return null;
-  return parseWikilinkDisplay(m[1]);
-}
-
-function extractParticipants(head: string): Participant[] {
-  const withIdx = head.indexOf(" with ");
-  if (withIdx < 0) return [];
-  const tail = head.slice(withIdx + " with ".length);
-  const matches = Array.from(tail.matchAll(/\[\[([^\]]+)\]\]/g));
-  return matches.map((m) => parseWikilinkDisplay(m[1]));
-}
+import { TimelineEntry } from "../types";
+import { applyCalendarDurations, parseDailyNote, stripWikilinks } from "../parser/daily-note-parser";
+import { formatDuration, formatTimeString, parseDate } from "../utils/time";
+import { getDailyNoteDate } from "../utils/daily-note-path";
 
 function getInitials(name: string): string {
   const cleaned = name.replace(/\[\[|\]\]/g, "").trim();
@@ -70,74 +26,9 @@ function getInitials(name: string): string {
   return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
 }
 
-function parseEntriesFromMarkdown(md: string): ParsedEntry[] {
-  const lines = md.split("\n");
-  const entries: ParsedEntry[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (!IS_TIME_LINE(line)) continue;
-
-    const m = line.match(TIME_LINE_RE);
-    if (!m) continue;
+function renderCardDom(plugin: TemporalDriftPlugin, file: TFile, entry: TimelineEntry): HTMLElement {
+  const app = plugin.app;
 
-    const time = `${m[1]}:${m[2]}`;
-    const head = (m[3] ?? "").trim();
-
-    const bodyLines: string[] = [];
-    let j = i + 1;
-    while (j < lines.length) {
-      const next = lines[j];
-      if (IS_TIME_LINE(next)) break;
-      if (next.match(/^##/)) break;
-
-      if (next.trim() === "") {
-        bodyLines.push("");
-        j++;
-        continue;
-      }
-
-      if (!/^\s+/.test(next)) break;
-
-      bodyLines.push(next.replace(/^\s+/, ""));
-      j++;
-    }
-
-    const primary = extractPrimaryLink(head);
-    const participants = extractParticipants(head);
-
-    const title = (() => {
-      if (primary) return stripEventIdSuffix(primary.display);
-      const plain = head.split(" with ")[0];
-      return stripEventIdSuffix(stripWikilinks(plain || "(empty)"));
-    })();
-
-    const locationText = (() => {
-      let t = head;
-      t = t.replace(/^\s*\[\[[^\]]+\]\]\s*/, "");
-      const withIdx = t.indexOf(" with ");
-      if (withIdx >= 0) t = t.slice(0, withIdx);
-      return stripWikilinks(t).trim();
-    })();
-
-    entries.push({
-      lineStart: i,
-      lineEnd: j - 1,
-      time,
-      head,
-      title,
-      locationText,
-      participants,
-      bodyLines,
-    });
-
-    i = j - 1;
-  }
-
-  return entries;
-}
-
-function renderCardDom(app: TemporalDriftPlugin["app"], file: TFile, entry: ParsedEntry): HTMLElement {
   const root = document.createElement("div");
   root.className = "td-live-preview";
 
@@ -146,7 +37,7 @@ function renderCardDom(app: TemporalDriftPlugin["app"], file: TFile, entry: Pars
 
   const timeEl = document.createElement("div");
   timeEl.className = "hour-time";
-  timeEl.textContent = entry.time;
+  timeEl.textContent = formatTimeString(entry.time, plugin.settings.timeFormat);
 
   const slot = document.createElement("div");
   slot.className = "hour-slot";
@@ -174,7 +65,7 @@ function renderCardDom(app: TemporalDriftPlugin["app"], file: TFile, entry: Pars
   right.className = "event-right";
   const duration = document.createElement("span");
   duration.className = "event-duration";
-  duration.textContent = "";
+  duration.textContent = formatDuration(entry.duration ?? 0);
   right.appendChild(duration);
 
   top.appendChild(left);
@@ -208,13 +99,13 @@ function renderCardDom(app: TemporalDriftPlugin["app"], file: TFile, entry: Pars
     card.appendChild(pWrap);
   }
 
-  if (entry.bodyLines.length > 0) {
+  if (entry.body.length > 0) {
     const body = document.createElement("div");
     body.className = "event-body";
 
     const pre = document.createElement("div");
     pre.className = "event-body-text";
-    pre.textContent = entry.bodyLines
+    pre.textContent = entry.body
       .filter((l) => l.trim().length > 0)
       .slice(0, 6)
       .map(stripWikilinks)
@@ -256,16 +147,14 @@ async function openAndJumpToLine(app: TemporalDriftPlugin["app"], file: TFile, l
 
 export function registerTimelinePostProcessor(plugin: TemporalDriftPlugin): void {
   // Cache parsed entries per file mtime.
-  const cache = new Map<string, { mtime: number; entries: ParsedEntry[]; byStart: Map<number, ParsedEntry> }>();
+  const cache = new Map<string, { mtime: number; entries: TimelineEntry[]; byStart: Map<number, TimelineEntry> }>();
 
   plugin.registerMarkdownPostProcessor(async (el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
     const sourcePath = ctx.sourcePath;
     if (!sourcePath) return;
 
-    const folderPrefix = normalizePath(plugin.settings.dailyNotesFolder + "/");
-    const normalizedPath = normalizePath(sourcePath);
-
-    if (!normalizedPath.startsWith(folderPrefix)) return;
+    const noteDate = getDailyNoteDate(plugin.settings, sourcePath);
+    if (!noteDate) return;
 
     const af = plugin.app.vault.getAbstractFileByPath(sourcePath);
     if (!(af instanceof TFile)) return;
@@ -275,8 +164,9 @@ export function registerTimelinePostProcessor(plugin: TemporalDriftPlugin): void
     let cached = cache.get(sourcePath);
     if (!cached || cached.mtime !== mtime) {
       const md = await plugin.app.vault.read(af);
-      const entries = parseEntriesFromMarkdown(md);
-      const byStart = new Map<number, ParsedEntry>();
+      const entries = parseDailyNote(md, plugin.settings.sections, plugin.settings.taskStatuses).entries;
+      applyCalendarDurations(entries, await plugin.calendarService.getEventsForDate(parseDate(noteDate)));
+      const byStart = new Map<number, TimelineEntry>();
       for (const e of entries) byStart.set(e.lineStart, e);
       cached = { mtime, entries, byStart };
       cache.set(sourcePath, cached);
@@ -308,7 +198,7 @@ export function registerTimelinePostProcessor(plugin: TemporalDriftPlugin): void
       const entry = cached.byStart.get(info.lineStart);
       if (entry) {
         // Replace this block with our card
-        const card = renderCardDom(plugin.app, af, entry);
+        const card = renderCardDom(plugin, af, entry);
         child.replaceWith(card);
       } else {
         // This block is part of a timeline entry (likely indented body); remove it.
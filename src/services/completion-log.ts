@@ -0,0 +1,99 @@
+// ============================================================================
+// Completion Log
+//
+// With "Log completions" on, completing a task note puts "HH:mm - [x] [[Task]]"
+// on that day's timeline, at the "completed" stamp TaskIndexService wrote.
+// Reopening the task removes the line again. Inline tasks are left alone;
+// they already sit in a note.
+// ============================================================================
+
+import { App, TFile } from "obsidian";
+import { SettingsAware, TemporalDriftSettings } from "../types";
+import { parseDailyNote, parseTimeToken } from "../parser/daily-note-parser";
+import { removeEntry } from "../parser/timeline-edits";
+import { DailyNoteService } from "./daily-note";
+import { TaskIndexService } from "./task-index";
+import { getDoneStatus } from "../utils/task-status";
+import { formatDate, formatTime, getLogicalDate, parseTimestamp } from "../utils/time";
+import { resolveDailyNotePath } from "../utils/daily-note-path";
+
+export class CompletionLog implements SettingsAware {
+  private app: App;
+  private settings: TemporalDriftSettings;
+  private taskIndex: TaskIndexService;
+  private dailyNoteService: DailyNoteService;
+
+  constructor(
+    app: App,
+    settings: TemporalDriftSettings,
+    taskIndex: TaskIndexService,
+    dailyNoteService: DailyNoteService
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.taskIndex = taskIndex;
+    this.dailyNoteService = dailyNoteService;
+  }
+
+  updateSettings(settings: TemporalDriftSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Handle TaskIndexService "status-changed": log completions, unlog reopened
+   * tasks. `completed` is the stamp that was just set or cleared.
+   */
+  async onStatusChanged(
+    path: string,
+    previous: string | undefined,
+    status: string,
+    completed: string | undefined
+  ): Promise<void> {
+    if (!this.settings.logCompletions || this.taskIndex.getTask(path)?.source) return;
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+
+    const done = getDoneStatus(this.settings.taskStatuses).id;
+    const stamp = completed ? parseTimestamp(completed) : null;
+    if (!stamp?.hasTime) return;
+
+    if (status === done && previous !== done) await this.logCompletion(file, stamp.date);
+    else if (previous === done && status !== done) await this.removeCompletion(file, stamp.date);
+  }
+
+  private async logCompletion(file: TFile, at: Date): Promise<void> {
+    const date = formatDate(getLogicalDate(at, this.settings.dayStartsAt));
+    const time = formatTime(at, this.settings.timeFormat, this.settings.dayStartsAt);
+    const notePath = resolveDailyNotePath(this.app, this.settings, date);
+    const link = this.app.metadataCache.fileToLinktext(file, notePath);
+    const marker = getDoneStatus(this.settings.taskStatuses).marker;
+    await this.dailyNoteService.appendEntry(date, time, `- [${marker}] [[${link}]]`);
+  }
+
+  /**
+   * Remove the logged line: a bare "- [x] [[Task]]" entry at the completion
+   * time, so anything written under it is kept. Date-only stamps from earlier
+   * versions were never logged and are skipped above.
+   */
+  private async removeCompletion(file: TFile, completed: Date): Promise<void> {
+    const date = formatDate(getLogicalDate(completed, this.settings.dayStartsAt));
+    const minutes = parseTimeToken(formatTime(completed, "HH:mm", this.settings.dayStartsAt))?.minutes;
+    const note = this.app.vault.getAbstractFileByPath(resolveDailyNotePath(this.app, this.settings, date));
+    if (!(note instanceof TFile)) return;
+
+    const done = getDoneStatus(this.settings.taskStatuses).id;
+    await this.app.vault.process(note, (content) => {
+      const entry = parseDailyNote(content, this.settings.sections, this.settings.taskStatuses).entries.find(
+        (e) =>
+          e.type === "task" &&
+          e.status === done &&
+          e.minutes === minutes &&
+          e.lineStart === e.lineEnd &&
+          !!e.primaryLink &&
+          this.app.metadataCache.getFirstLinkpathDest(e.primaryLink.target, note.path)?.path === file.path
+      );
+      return entry ? removeEntry(content, entry) : content;
+    });
+  }
+}
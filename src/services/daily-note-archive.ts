@@ -0,0 +1,102 @@
+// ============================================================================
+// Daily Note Archive
+//
+// Moves old daily notes into "<folder>/Archive/YYYY/" so the daily notes
+// folder stays small. Moves go through fileManager.renameFile, which updates
+// links; archived notes keep resolving by date (see utils/daily-note-path).
+// ============================================================================
+
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import { SettingsAware, TemporalDriftSettings } from "../types";
+import {
+  ARCHIVE_FOLDER,
+  ensureParentFolders,
+  getArchivedDailyNotePath,
+  getDailyNoteDate,
+  isArchivedDailyNotePath,
+} from "../utils/daily-note-path";
+import { addDays, formatDate, getLogicalDate } from "../utils/time";
+
+export interface ArchiveResult {
+  moved: number;
+  failed: number;
+}
+
+export class DailyNoteArchive implements SettingsAware {
+  private app: App;
+  private settings: TemporalDriftSettings;
+
+  constructor(app: App, settings: TemporalDriftSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: TemporalDriftSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Daily notes older than the configured age that are not archived yet
+   */
+  findArchivable(): TFile[] {
+    const today = getLogicalDate(new Date(), this.settings.dayStartsAt);
+    const cutoff = formatDate(addDays(today, -this.settings.archiveAfterDays));
+
+    const files: TFile[] = [];
+    const folder = this.settings.dailyNotesFolder.trim()
+      ? this.app.vault.getAbstractFileByPath(normalizePath(this.settings.dailyNotesFolder))
+      : this.app.vault.getRoot();
+    if (!(folder instanceof TFolder)) return files;
+
+    // Only the daily notes folder (the path pattern may nest by year/month), never its Archive
+    const archive = normalizePath(`${folder.path}/${ARCHIVE_FOLDER}`);
+    const walk = (dir: TFolder) => {
+      for (const child of dir.children) {
+        if (child instanceof TFolder) {
+          if (child.path !== archive) walk(child);
+        } else if (child instanceof TFile && child.extension === "md") {
+          const date = getDailyNoteDate(this.settings, child.path);
+          if (date && date < cutoff && !isArchivedDailyNotePath(this.settings, child.path)) files.push(child);
+        }
+      }
+    };
+    walk(folder);
+    return files;
+  }
+
+  /**
+   * Move notes into their year folder. Notes whose archive path is taken are
+   * left where they are; a note that can't be moved doesn't stop the rest.
+   */
+  async archive(files: TFile[]): Promise<ArchiveResult> {
+    let moved = 0;
+    let failed = 0;
+    for (const file of files) {
+      const date = getDailyNoteDate(this.settings, file.path);
+      if (!date) continue;
+
+      const target = getArchivedDailyNotePath(this.settings, date);
+      if (this.app.vault.getAbstractFileByPath(target)) {
+        console.warn("Temporal Drift: archive path already exists, skipping", target);
+        continue;
+      }
+
+      try {
+        await ensureParentFolders(this.app, target);
+        await this.app.fileManager.renameFile(file, target);
+        moved++;
+      } catch (e) {
+        console.error("Temporal Drift: could not archive", file.path, e);
+        failed++;
+      }
+    }
+    return { moved, failed };
+  }
+
+  /**
+   * Archive everything past the configured age
+   */
+  async archiveOldNotes(): Promise<ArchiveResult> {
+    return await this.archive(this.findArchivable());
+  }
+}
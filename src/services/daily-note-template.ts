@@ -0,0 +1,103 @@
+// ============================================================================
+// Daily Note Template
+//
+// The one renderer every note-creation path goes through, so a daily note
+// looks the same however it was created.
+//
+// Variables:
+//   {{date}}, {{yesterday}}, {{tomorrow}}   YYYY-MM-DD
+//   {{weekday}}                             e.g. "Monday"
+//   {{time}}                                current time in the configured format
+//   {{sections_before}}, {{sections_after}} configured section blocks around the timeline
+//   {{thankful}}, {{focus}}                 one section block (empty when not configured)
+//   {{timeline}}                            a fresh "{{time}} " entry, or migrated entries
+// ============================================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import { DaySectionConfig, TemporalDriftSettings } from "../types";
+import { findSectionConfig } from "../parser/daily-note-parser";
+import { addDays, formatDate, formatTime, getDayName, parseDate } from "../utils/time";
+
+export const DEFAULT_DAILY_NOTE_TEMPLATE = `# {{date}}
+
+{{sections_before}}{{timeline}}{{sections_after}}`;
+
+/**
+ * Content carried into a new note (e.g. when migrating an old one)
+ */
+export interface DailyNoteTemplateContent {
+  sections?: Record<string, string>; // configured heading -> content
+  entries?: string[];
+}
+
+function sectionBlock(config: DaySectionConfig | undefined, content: DailyNoteTemplateContent): string {
+  if (!config) return "";
+  const text = content.sections?.[config.heading];
+  return `## ${config.heading}\n\n${text ? `${text}\n` : ""}\n`;
+}
+
+/**
+ * Substitute template variables for a given date
+ */
+export function renderTemplate(
+  source: string,
+  date: string,
+  settings: TemporalDriftSettings,
+  content: DailyNoteTemplateContent = {}
+): string {
+  const day = parseDate(date);
+  const time = formatTime(new Date(), settings.timeFormat, settings.dayStartsAt);
+  const hasEntries = !!content.entries && content.entries.length > 0;
+  const configured = settings.sections.filter((c) => c.heading.trim() !== "");
+  const before = configured.filter((c) => c.position === "before");
+  const after = configured.filter((c) => c.position === "after");
+
+  const vars: Record<string, string> = {
+    date,
+    weekday: getDayName(day, false),
+    time,
+    yesterday: formatDate(addDays(day, -1)),
+    tomorrow: formatDate(addDays(day, 1)),
+    sections_before: before.map((c) => sectionBlock(c, content)).join(""),
+    sections_after: after.length > 0 ? `\n\n${after.map((c) => sectionBlock(c, content)).join("").trimEnd()}\n` : "",
+    thankful: sectionBlock(findSectionConfig("Thankful for", configured), content),
+    focus: sectionBlock(findSectionConfig("Focus", configured), content),
+    timeline: hasEntries ? content.entries!.join("\n") : `${time} `,
+  };
+
+  let rendered = source.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : match
+  );
+
+  // Never drop migrated entries just because a custom template has no {{timeline}}
+  if (hasEntries && !/\{\{\s*timeline\s*\}\}/.test(source)) {
+    rendered = `${rendered.trimEnd()}\n\n${vars.timeline}`;
+  }
+
+  return rendered;
+}
+
+/**
+ * Render a new daily note from the configured template note (or the built-in one)
+ */
+export async function renderDailyNoteTemplate(
+  app: App,
+  settings: TemporalDriftSettings,
+  date: string,
+  content?: DailyNoteTemplateContent
+): Promise<string> {
+  let source = DEFAULT_DAILY_NOTE_TEMPLATE;
+
+  const configured = settings.dailyNoteTemplate.trim();
+  if (configured) {
+    const path = normalizePath(configured.endsWith(".md") ? configured : `${configured}.md`);
+    const file = app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      source = await app.vault.read(file);
+    } else {
+      console.warn("Temporal Drift: Template note not found, using built-in template", path);
+    }
+  }
+
+  return renderTemplate(source, date, settings, content);
+}
@@ -2,23 +2,44 @@
 // Daily Note Service
 // ============================================================================
 
-import { App, TFile, normalizePath } from "obsidian";
-import { TemporalDriftSettings, SettingsAware } from "../types";
-import { formatDate, formatTime } from "../utils/time";
+import { App, MarkdownView, Notice, TFile } from "obsidian";
+import { DaySectionConfig, TemporalDriftSettings, SettingsAware } from "../types";
+import { formatDate, formatTime, getLogicalDate, parseDate } from "../utils/time";
+import { FRONTMATTER_RE, findSectionConfig, isTimeLine, parseDailyNote } from "../parser/daily-note-parser";
+import { formatEventEntry, insertEntry } from "../parser/timeline-edits";
+import { renderDailyNoteTemplate } from "./daily-note-template";
+import { ensureParentFolders, getDailyNoteDate, resolveDailyNotePath } from "../utils/daily-note-path";
+import { collectCarryOver, insertCarriedOver } from "../parser/carry-over";
+import { TaskIndexService } from "./task-index";
+import { isClosedStatus } from "../utils/task-status";
+import { CalendarService } from "./calendar";
+import { MigrationLog, MigrationRecord } from "./migration-log";
+import { MigrationPreviewModal, replaceIfUnchanged } from "../modals/migration-preview-modal";
 
 interface MigratedContent {
-  thankful?: string;
-  focus?: string;
+  frontmatter?: string;
+  sections: Record<string, string>; // configured heading -> content
   entries: string[];
+  otherSections: string[]; // unknown "## Heading" blocks, verbatim
 }
 
 export class DailyNoteService implements SettingsAware {
   private app: App;
   private settings: TemporalDriftSettings;
-
-  constructor(app: App, settings: TemporalDriftSettings) {
+  private taskIndex?: TaskIndexService;
+  private migrationLog?: MigrationLog;
+  private migrationOffered = new Set<string>();
+
+  constructor(
+    app: App,
+    settings: TemporalDriftSettings,
+    taskIndex?: TaskIndexService,
+    migrationLog?: MigrationLog
+  ) {
     this.app = app;
     this.settings = settings;
+    this.taskIndex = taskIndex;
+    this.migrationLog = migrationLog;
   }
 
   updateSettings(settings: TemporalDriftSettings): void {
@@ -26,10 +47,17 @@ export class DailyNoteService implements SettingsAware {
   }
 
   /**
-   * Get the path for a daily note
+   * Today's date (YYYY-MM-DD), respecting the configured day start
+   */
+  getToday(): string {
+    return formatDate(getLogicalDate(new Date(), this.settings.dayStartsAt));
+  }
+
+  /**
+   * Get the path for a daily note (its archived path once archived)
    */
   getDailyNotePath(date: string): string {
-    return normalizePath(`${this.settings.dailyNotesFolder}/${date}.md`);
+    return resolveDailyNotePath(this.app, this.settings, date);
   }
 
   /**
@@ -53,34 +81,8 @@ export class DailyNoteService implements SettingsAware {
   /**
    * Get the template for a new daily note
    */
-  private getTemplate(date: string, migratedContent?: MigratedContent): string {
-    const lines: string[] = [`# ${date}`, ""];
-
-    if (this.settings.showThankful) {
-      lines.push("## Thankful for", "");
-      if (migratedContent?.thankful) {
-        lines.push(migratedContent.thankful);
-      }
-      lines.push("");
-    }
-
-    if (this.settings.showFocus) {
-      lines.push("## Focus", "");
-      if (migratedContent?.focus) {
-        lines.push(migratedContent.focus);
-      }
-      lines.push("");
-    }
-
-    // Add migrated entries or current time
-    if (migratedContent?.entries && migratedContent.entries.length > 0) {
-      lines.push(...migratedContent.entries);
-    } else {
-      const time = formatTime(new Date());
-      lines.push(`${time} `);
-    }
-
-    return lines.join("\n");
+  private async getTemplate(date: string, migratedContent?: MigratedContent): Promise<string> {
+    return renderDailyNoteTemplate(this.app, this.settings, date, migratedContent);
   }
 
   /**
@@ -93,154 +95,315 @@ export class DailyNoteService implements SettingsAware {
     }
 
     // Should have at least one of the expected sections or time entries
-    const hasThankful = content.match(/^## (Thankful|Grateful)/im);
-    const hasFocus = content.match(/^## Focus/im);
-    const hasTimeEntry = content.match(/^\d{2}:\d{2}\s/m);
+    const doc = parseDailyNote(content, this.settings.sections);
+    const hasSection = doc.sections.some((s) => s.kind !== "other");
 
-    return !!(hasThankful || hasFocus || hasTimeEntry);
+    return hasSection || doc.entries.length > 0;
   }
 
   /**
-   * Extract content from an improperly formatted note
+   * Extract content from an improperly formatted note. Frontmatter and
+   * sections the plugin doesn't know about are kept verbatim.
    */
   private extractContent(content: string): MigratedContent {
     const migrated: MigratedContent = {
+      sections: {},
       entries: [],
+      otherSections: [],
     };
 
-    const lines = content.split("\n");
-    let currentSection: "none" | "thankful" | "focus" | "entries" = "none";
-    const thankfulLines: string[] = [];
-    const focusLines: string[] = [];
+    let lines = content.split("\n");
+    const fm = content.match(FRONTMATTER_RE);
+    if (fm) {
+      migrated.frontmatter = fm[0].trimEnd();
+      lines = content.slice(fm[0].length).split("\n");
+    }
 
-    for (const line of lines) {
-      // Skip the main title
-      if (line.match(/^# /)) continue;
+    let currentSection: DaySectionConfig | "none" | "entries" | "other" = "none";
+    const sectionLines = new Map<DaySectionConfig, string[]>();
+    let otherLines: string[] = [];
+    let inFence = false;
 
-      // Detect sections
-      if (line.match(/^## (Thankful|Grateful)/i)) {
-        currentSection = "thankful";
-        continue;
-      }
-      if (line.match(/^## Focus/i)) {
-        currentSection = "focus";
-        continue;
-      }
-      if (line.match(/^## /)) {
-        currentSection = "none";
-        continue;
-      }
+    const closeOther = () => {
+      if (otherLines.length > 0) migrated.otherSections.push(otherLines.join("\n").trimEnd());
+      otherLines = [];
+    };
 
-      // Time entries
-      if (line.match(/^\d{2}:\d{2}\s/)) {
-        migrated.entries.push(line);
-        currentSection = "entries";
-        continue;
+    for (const line of lines) {
+      // Code blocks are copied as-is, whatever they contain
+      const isFence = /^\s*(```|~~~)/.test(line);
+      if (!inFence) {
+        // Skip the main title
+        if (line.match(/^# /)) continue;
+
+        // Detect sections
+        const heading = line.match(/^#{2,6} (.*)$/);
+        if (heading) {
+          closeOther();
+          const config = findSectionConfig(heading[1], this.settings.sections);
+          currentSection = config ?? "other";
+          if (!config) otherLines.push(line);
+          continue;
+        }
+
+        // Time entries
+        if (isTimeLine(line)) {
+          closeOther();
+          migrated.entries.push(line);
+          currentSection = "entries";
+          continue;
+        }
       }
+      if (isFence) inFence = !inFence;
 
       // Collect section content
-      if (currentSection === "thankful" && line.trim()) {
-        thankfulLines.push(line);
-      } else if (currentSection === "focus" && line.trim()) {
-        focusLines.push(line);
-      } else if (currentSection === "entries" && line.trim()) {
-        // Continuation of previous entry
-        migrated.entries.push(line);
-      } else if (currentSection === "none" && line.trim()) {
-        // Unstructured content - add as entry without timestamp
+      if (currentSection === "other") {
+        otherLines.push(line);
+        continue;
+      }
+      if (!line.trim() && !inFence) continue;
+      if (currentSection === "entries" || currentSection === "none") {
+        // Continuation of previous entry, or unstructured content added as entry without timestamp
         migrated.entries.push(line);
+      } else {
+        const collected = sectionLines.get(currentSection) ?? [];
+        collected.push(line);
+        sectionLines.set(currentSection, collected);
       }
     }
+    closeOther();
 
-    if (thankfulLines.length > 0) {
-      migrated.thankful = thankfulLines.join("\n");
-    }
-    if (focusLines.length > 0) {
-      migrated.focus = focusLines.join("\n");
+    for (const [config, collected] of sectionLines) {
+      migrated.sections[config.heading] = collected.join("\n");
     }
 
     return migrated;
   }
 
   /**
-   * Create a daily note if it doesn't exist, or migrate if improperly formatted
+   * The note as it would look in Temporal Drift format
+   */
+  async buildMigration(date: string, content: string): Promise<string> {
+    const migrated = this.extractContent(content);
+    let proposed = await this.getTemplate(date, migrated);
+
+    // The note's own frontmatter wins over the template's
+    if (migrated.frontmatter) {
+      proposed = `${migrated.frontmatter}\n${proposed.replace(FRONTMATTER_RE, "")}`;
+    }
+    if (migrated.otherSections.length > 0) {
+      proposed = `${proposed.trimEnd()}\n\n${migrated.otherSections.join("\n\n")}\n`;
+    }
+    return proposed;
+  }
+
+  /**
+   * Preview the migration of a daily note side by side. Nothing is written
+   * unless the user accepts; accepted migrations are logged for undo.
+   */
+  async migrateDailyNote(file: TFile): Promise<void> {
+    const date = getDailyNoteDate(this.settings, file.path);
+    if (!date) return;
+
+    const original = await this.app.vault.read(file);
+    const proposed = await this.buildMigration(date, original);
+
+    new MigrationPreviewModal(this.app, {
+      title: `Migrate ${file.basename}`,
+      original,
+      proposed,
+      acceptText: "Migrate",
+      onAccept: async (content) => {
+        if (!(await replaceIfUnchanged(this.app, file, original, content))) return;
+        await this.migrationLog?.add(file.path, original, content);
+        new Notice(`Temporal Drift: migrated ${file.basename}`);
+      },
+    }).open();
+  }
+
+  /**
+   * Restore a note to its content before a logged migration (previewed first)
+   */
+  async undoMigration(record: MigrationRecord): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(record.path);
+    if (!(file instanceof TFile)) {
+      new Notice(`Temporal Drift: ${record.path} no longer exists`);
+      return;
+    }
+
+    const current = await this.app.vault.read(file);
+    new MigrationPreviewModal(this.app, {
+      title: `Undo migration of ${file.basename}`,
+      original: current,
+      proposed: record.original,
+      acceptText: "Restore",
+      onAccept: async (content) => {
+        if (!(await replaceIfUnchanged(this.app, file, current, content))) return;
+        await this.migrationLog?.markUndone(record.id);
+        new Notice(`Temporal Drift: restored ${file.basename}`);
+      },
+    }).open();
+  }
+
+  /**
+   * Offer a migration preview for an improperly formatted daily note the user
+   * opened, once per session
+   */
+  async offerMigration(file: TFile): Promise<void> {
+    if (this.migrationOffered.has(file.path)) return;
+    const content = await this.app.vault.read(file);
+    if (this.hasProperFormatting(content)) return;
+    this.migrationOffered.add(file.path);
+    await this.migrateDailyNote(file);
+  }
+
+  /**
+   * Create a daily note if it doesn't exist. Existing notes are returned
+   * as they are; this never rewrites or prompts.
    */
   async createDailyNote(date: string): Promise<TFile> {
     const path = this.getDailyNotePath(date);
 
     // Check if file exists
     const existing = this.app.vault.getAbstractFileByPath(path);
-    if (existing instanceof TFile) {
-      // Check if it has proper formatting
-      const content = await this.app.vault.read(existing);
-      if (this.hasProperFormatting(content)) {
-        return existing;
-      }
-
-      // Archive the old note and create new one
-      const backupPath = normalizePath(
-        `${this.settings.dailyNotesFolder}/${date}_backup.md`
-      );
+    if (existing instanceof TFile) return existing;
 
-      // Extract content before archiving
-      const migratedContent = this.extractContent(content);
+    return await this.createNewDailyNote(date, path);
+  }
 
-      // Rename to backup
-      await this.app.fileManager.renameFile(existing, backupPath);
+  /**
+   * Create daily notes for several dates, e.g. a week ahead for planning or
+   * forgotten past days. Existing notes are skipped, never touched. With a
+   * calendar, each new note starts with that day's events on its timeline.
+   */
+  async createDailyNotes(
+    dates: string[],
+    calendar?: CalendarService
+  ): Promise<{ created: TFile[]; skipped: string[] }> {
+    const created: TFile[] = [];
+    const skipped: string[] = [];
+
+    for (const date of dates) {
+      const path = this.getDailyNotePath(date);
+      if (this.app.vault.getAbstractFileByPath(path)) {
+        skipped.push(date);
+        continue;
+      }
 
-      // Create new note with migrated content
-      const newContent = this.getTemplate(date, migratedContent);
-      return await this.app.vault.create(path, newContent);
+      const events = calendar ? await calendar.getEventsForDate(parseDate(date)) : [];
+      const entries = events
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .map((event) => formatEventEntry(event, this.settings.timeFormat));
+      created.push(await this.createNewDailyNote(date, path, entries));
     }
 
-    // Ensure folder exists
-    const folderPath = this.settings.dailyNotesFolder;
-    const folder = this.app.vault.getAbstractFileByPath(folderPath);
-    if (!folder) {
-      await this.app.vault.createFolder(folderPath);
-    }
+    return { created, skipped };
+  }
+
+  private async createNewDailyNote(date: string, path: string, entries: string[] = []): Promise<TFile> {
+    // Ensure folders exist (the path pattern may nest by year/month)
+    await ensureParentFolders(this.app, path);
 
     // Create the note
-    const content = this.getTemplate(date);
+    let content = await renderDailyNoteTemplate(this.app, this.settings, date, { entries });
+    if (date === this.getToday()) {
+      content = await this.carryOver(date, path, content);
+    }
     return await this.app.vault.create(path, content);
   }
 
+  /**
+   * Bring open tasks (and optionally Focus items) over from the most recent
+   * previous daily note, skipping tasks the index already has as closed
+   */
+  private async carryOver(date: string, path: string, content: string): Promise<string> {
+    const { carryOverTasks, carryOverFocus } = this.settings;
+    if (!carryOverTasks && !carryOverFocus) return content;
+
+    const previous = this.findPreviousDailyNote(date);
+    if (!previous) return content;
+
+    const items = collectCarryOver(
+      await this.app.vault.read(previous),
+      this.settings.sections,
+      { tasks: carryOverTasks, focus: carryOverFocus },
+      this.settings.taskStatuses
+    ).filter((item) => !item.links.some((link) => this.isClosedTask(link.target, previous.path)));
+
+    const sourceLink = `[[${this.app.metadataCache.fileToLinktext(previous, path)}]]`;
+    return insertCarriedOver(content, items, sourceLink, this.settings.sections);
+  }
+
+  private isClosedTask(linkTarget: string, sourcePath: string): boolean {
+    if (!this.taskIndex) return false;
+    const file = this.app.metadataCache.getFirstLinkpathDest(linkTarget, sourcePath);
+    const task = file ? this.taskIndex.getTask(file.path) : undefined;
+    return !!task && isClosedStatus(this.settings.taskStatuses, task.status);
+  }
+
+  /**
+   * The latest daily note dated before the given date
+   */
+  private findPreviousDailyNote(date: string): TFile | null {
+    let best: { file: TFile; date: string } | null = null;
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const noteDate = getDailyNoteDate(this.settings, file.path);
+      if (!noteDate || noteDate >= date) continue;
+      if (!best || noteDate > best.date) best = { file, date: noteDate };
+    }
+    return best?.file ?? null;
+  }
+
   /**
    * Open today's daily note (create if needed)
    */
   async openToday(): Promise<void> {
-    const today = formatDate(new Date());
+    const today = this.getToday();
     const file = await this.createDailyNote(today);
     await this.openDailyNote(today);
   }
 
   /**
-   * Open a daily note by date
+   * Open a daily note by date, optionally placing the cursor at the end of a line
    */
-  async openDailyNote(date: string): Promise<void> {
+  async openDailyNote(date: string, line?: number): Promise<void> {
     const file = await this.createDailyNote(date);
     const leaf = this.app.workspace.getLeaf(false);
     await leaf.openFile(file);
+
+    if (line === undefined) return;
+    const view = leaf.view;
+    if (view instanceof MarkdownView) {
+      const editor = view.editor;
+      const target = Math.min(line, editor.lastLine());
+      editor.setCursor({ line: target, ch: editor.getLine(target).length });
+      editor.focus();
+    }
   }
 
   /**
-   * Append an entry to a daily note
+   * Insert an entry at its chronological position in a daily note.
+   * Returns the 0-based line of the new entry.
    */
-  async appendEntry(date: string, time: string, text: string): Promise<void> {
+  async appendEntry(date: string, time: string, text: string): Promise<number> {
     const file = await this.createDailyNote(date);
 
+    let line = 0;
     await this.app.vault.process(file, (content) => {
-      // Find a good place to insert (end of file or before next day heading)
-      return content.trimEnd() + `\n\n${time} ${text}`;
+      const result = insertEntry(content, time, text, this.settings.sections);
+      line = result.line;
+      return result.content;
     });
+    return line;
   }
 
   /**
-   * Add an entry at the current time
+   * Add an entry at the current time. Returns the 0-based line of the new entry.
    */
-  async addCurrentEntry(text: string): Promise<void> {
-    const today = formatDate(new Date());
-    const time = formatTime(new Date());
-    await this.appendEntry(today, time, text);
+  async addCurrentEntry(text: string): Promise<number> {
+    const now = new Date();
+    const today = formatDate(getLogicalDate(now, this.settings.dayStartsAt));
+    const time = formatTime(now, this.settings.timeFormat, this.settings.dayStartsAt);
+    return await this.appendEntry(today, time, text);
   }
 }
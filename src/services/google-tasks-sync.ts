@@ -5,6 +5,7 @@
 import { App, TFile, requestUrl, debounce } from "obsidian";
 import { TemporalDriftSettings, SettingsAware, TaskMeta } from "../types";
 import { TaskIndexService } from "./task-index";
+import { getDefaultStatus, getDoneStatus, isClosedStatus } from "../utils/task-status";
 
 interface GoogleTasksToken {
   access_token: string;
@@ -29,6 +30,14 @@ interface SyncMeta {
   lastSynced: number;
 }
 
+/**
+ * Whether a remote task was created for this local task: its notes carry an
+ * exact "Obsidian: <path>" line ("a.md#Call" must not match "a.md#Call Anna")
+ */
+function isRemoteFor(remote: GoogleTask, path: string): boolean {
+  return (remote.notes ?? "").split("\n").some((line) => line.trim() === `Obsidian: ${path}`);
+}
+
 export class GoogleTasksSyncService implements SettingsAware {
   private app: App;
   private settings: TemporalDriftSettings;
@@ -236,7 +245,7 @@ export class GoogleTasksSyncService implements SettingsAware {
       body: JSON.stringify({
         title: this.encodeTaskTitle(task),
         notes: `Obsidian: ${task.path}`,
-        status: task.status === "done" ? "completed" : "needsAction",
+        status: isClosedStatus(this.settings.taskStatuses, task.status) ? "completed" : "needsAction",
         due: task.due ? `${task.due}T00:00:00.000Z` : undefined,
       }),
     });
@@ -259,7 +268,7 @@ export class GoogleTasksSyncService implements SettingsAware {
       },
       body: JSON.stringify({
         title: this.encodeTaskTitle(task),
-        status: task.status === "done" ? "completed" : "needsAction",
+        status: isClosedStatus(this.settings.taskStatuses, task.status) ? "completed" : "needsAction",
         due: task.due ? `${task.due}T00:00:00.000Z` : undefined,
       }),
     });
@@ -298,14 +307,14 @@ export class GoogleTasksSyncService implements SettingsAware {
     this.syncInProgress = true;
     try {
       const remoteTasks = await this.fetchRemoteTasks();
-      const localTasks = this.taskIndexService.getByStatus("open").concat(
-        this.taskIndexService.getByStatus("done")
-      );
+      const localTasks = this.taskIndexService.getAll();
 
       // Reconcile each task
       for (const local of localTasks) {
         const meta = this.syncMeta.get(local.path);
-        const remote = remoteTasks.find((r) => r.notes?.includes(local.path));
+        const remote = meta
+          ? remoteTasks.find((r) => r.id === meta.googleTaskId)
+          : remoteTasks.find((r) => isRemoteFor(r, local.path));
 
         if (!remote) {
           // Push new local task to remote
@@ -343,10 +352,14 @@ export class GoogleTasksSyncService implements SettingsAware {
       // Remote wins - update local
       const decoded = this.decodeTaskTitle(remote.title);
       await this.taskIndexService.updatePriority(local.path, decoded.priority);
-      if (remote.status === "completed" && local.status === "open") {
-        await this.taskIndexService.toggleStatus(local.path, "done");
-      } else if (remote.status === "needsAction" && local.status === "done") {
-        await this.taskIndexService.toggleStatus(local.path, "open");
+      // Google Tasks only knows two states: map them onto open/closed and keep
+      // the finer local status (in progress, cancelled, ...) when it agrees
+      const statuses = this.settings.taskStatuses;
+      const closed = isClosedStatus(statuses, local.status);
+      if (remote.status === "completed" && !closed) {
+        await this.taskIndexService.toggleStatus(local.path, getDoneStatus(statuses).id);
+      } else if (remote.status === "needsAction" && closed) {
+        await this.taskIndexService.toggleStatus(local.path, getDefaultStatus(statuses).id);
       }
       meta.lastSynced = Date.now();
       meta.remoteEtag = remote.etag;
@@ -359,7 +372,7 @@ export class GoogleTasksSyncService implements SettingsAware {
    * Get local file modified time
    */
   private getLocalModifiedTime(task: TaskMeta): number {
-    const file = this.app.vault.getAbstractFileByPath(task.path);
+    const file = this.app.vault.getAbstractFileByPath(task.source?.path ?? task.path);
     if (file instanceof TFile) {
       return file.stat.mtime;
     }
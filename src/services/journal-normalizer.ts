@@ -0,0 +1,125 @@
+// ============================================================================
+// Journal Normalizer Service
+//
+// Vault-wide conversion of legacy daily notes (see parser/legacy-normalizer).
+// Scans the daily notes folder, applies in batch through vault.process and
+// writes a summary report note.
+// ============================================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import { SettingsAware, TemporalDriftSettings } from "../types";
+import {
+  LEGACY_STYLE_LABELS,
+  LegacyStyle,
+  NormalizationResult,
+  normalizeLegacyTimeline,
+} from "../parser/legacy-normalizer";
+import { ensureParentFolders } from "../utils/daily-note-path";
+import { formatDate, formatTime } from "../utils/time";
+
+const REPORT_FOLDER = "Temporal Drift";
+
+export interface NormalizationCandidate {
+  file: TFile;
+  result: NormalizationResult;
+}
+
+export class JournalNormalizer implements SettingsAware {
+  private app: App;
+  private settings: TemporalDriftSettings;
+
+  constructor(app: App, settings: TemporalDriftSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: TemporalDriftSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Every note in the daily notes folder with legacy timestamps, oldest first.
+   * Matches by folder rather than path pattern: legacy notes are often named
+   * differently.
+   */
+  async scan(): Promise<{ scanned: number; candidates: NormalizationCandidate[] }> {
+    const prefix = normalizePath(this.settings.dailyNotesFolder + "/");
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((f) => f.path.startsWith(prefix))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const candidates: NormalizationCandidate[] = [];
+    for (const file of files) {
+      const result = normalizeLegacyTimeline(await this.app.vault.cachedRead(file));
+      if (result.changes.length > 0) candidates.push({ file, result });
+    }
+
+    return { scanned: files.length, candidates };
+  }
+
+  /**
+   * Normalize the given notes. Each note is re-normalized from its content on
+   * disk inside vault.process, so edits made since the scan are kept.
+   */
+  async apply(files: TFile[]): Promise<TFile[]> {
+    const applied: TFile[] = [];
+    for (const file of files) {
+      let changed = false;
+      await this.app.vault.process(file, (content) => {
+        const result = normalizeLegacyTimeline(content);
+        changed = result.changes.length > 0;
+        return result.content;
+      });
+      if (changed) applied.push(file);
+    }
+    return applied;
+  }
+
+  /**
+   * Write a summary note of a normalization run and return it
+   */
+  async writeReport(scanned: number, candidates: NormalizationCandidate[], applied: Set<TFile>): Promise<TFile> {
+    const now = new Date();
+    const stamp = `${formatDate(now)} ${formatTime(now, "HH:mm:ss").replace(/:/g, "")}`;
+    const path = normalizePath(`${REPORT_FOLDER}/Normalization report ${stamp}.md`);
+
+    const byStyle = new Map<LegacyStyle, number>();
+    for (const { result } of candidates) {
+      for (const change of result.changes) {
+        byStyle.set(change.style, (byStyle.get(change.style) ?? 0) + 1);
+      }
+    }
+
+    const link = (file: TFile) => `[[${this.app.metadataCache.fileToLinktext(file, path)}]]`;
+    const describe = ({ file, result }: NormalizationCandidate) => {
+      const styles = [...new Set(result.changes.map((c) => LEGACY_STYLE_LABELS[c.style].toLowerCase()))];
+      return `- ${link(file)}: ${result.changes.length} lines (${styles.join(", ")})`;
+    };
+
+    const done = candidates.filter((c) => applied.has(c.file));
+    const skipped = candidates.filter((c) => !applied.has(c.file));
+
+    const lines = [
+      `# Legacy journal normalization ${stamp}`,
+      "",
+      `Scanned ${scanned} notes in "${this.settings.dailyNotesFolder}": ${candidates.length} with legacy timestamps, ${done.length} normalized.`,
+      "",
+      "| Style | Lines |",
+      "| --- | --- |",
+      ...[...byStyle].map(([style, count]) => `| ${LEGACY_STYLE_LABELS[style]} | ${count} |`),
+      "",
+      "## Normalized",
+      "",
+      ...(done.length > 0 ? done.map(describe) : ["None"]),
+      "",
+      "## Skipped",
+      "",
+      ...(skipped.length > 0 ? skipped.map(describe) : ["None"]),
+      "",
+    ];
+
+    await ensureParentFolders(this.app, path);
+    return await this.app.vault.create(path, lines.join("\n"));
+  }
+}
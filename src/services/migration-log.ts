@@ -0,0 +1,81 @@
+// ============================================================================
+// Migration Log
+//
+// Every accepted daily note migration is recorded with the note's original
+// content, so it can be undone later. Stored as JSON next to the plugin's
+// data.json rather than in the vault.
+// ============================================================================
+
+import { App } from "obsidian";
+
+export interface MigrationRecord {
+  id: string;
+  path: string;
+  migratedAt: string; // ISO timestamp
+  original: string;
+  migrated: string;
+  undoneAt?: string;
+}
+
+export class MigrationLog {
+  private app: App;
+  private logPath: string;
+  private records: MigrationRecord[] | null = null;
+
+  constructor(app: App, logPath: string) {
+    this.app = app;
+    this.logPath = logPath;
+  }
+
+  private async load(): Promise<MigrationRecord[]> {
+    if (this.records) return this.records;
+
+    this.records = [];
+    const adapter = this.app.vault.adapter;
+    if (await adapter.exists(this.logPath)) {
+      try {
+        this.records = JSON.parse(await adapter.read(this.logPath)) as MigrationRecord[];
+      } catch (error) {
+        console.error("Temporal Drift: Could not read migration log", error);
+      }
+    }
+    return this.records;
+  }
+
+  private async save(): Promise<void> {
+    await this.app.vault.adapter.write(this.logPath, JSON.stringify(this.records ?? [], null, 2));
+  }
+
+  /**
+   * Record a migration that was just written to disk
+   */
+  async add(path: string, original: string, migrated: string): Promise<MigrationRecord> {
+    const records = await this.load();
+    const record: MigrationRecord = {
+      id: `${Date.now().toString(36)}-${records.length}`,
+      path,
+      migratedAt: new Date().toISOString(),
+      original,
+      migrated,
+    };
+    records.push(record);
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Migrations that have not been undone, newest first
+   */
+  async list(): Promise<MigrationRecord[]> {
+    const records = await this.load();
+    return records.filter((r) => !r.undoneAt).reverse();
+  }
+
+  async markUndone(id: string): Promise<void> {
+    const records = await this.load();
+    const record = records.find((r) => r.id === id);
+    if (!record) return;
+    record.undoneAt = new Date().toISOString();
+    await this.save();
+  }
+}
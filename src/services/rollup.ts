@@ -0,0 +1,245 @@
+// ============================================================================
+// Rollup Service - Weekly and Monthly Notes
+//
+// Builds a review note from the parsed days of a week or month: configured
+// sections (Thankful, Focus, ...), completed tasks, meetings by person and
+// entry counts. The generated part sits between marker comments so it can be
+// regenerated in place without touching anything written around it.
+// ============================================================================
+
+import { App, TFile, normalizePath } from "obsidian";
+import { SettingsAware, TemporalDriftSettings, TimelineEntry } from "../types";
+import { parseDailyNote } from "../parser/daily-note-parser";
+import { ensureParentFolders, resolveDailyNotePath } from "../utils/daily-note-path";
+import { getDoneStatus } from "../utils/task-status";
+import {
+  addDays,
+  formatDate,
+  formatTimeString,
+  getDayName,
+  getISOWeek,
+  getLogicalDate,
+  getMonthName,
+  getWeekStart,
+  parseDate,
+} from "../utils/time";
+
+export const ROLLUP_START = "<!-- temporal-drift:rollup start -->";
+export const ROLLUP_END = "<!-- temporal-drift:rollup end -->";
+
+export type RollupKind = "week" | "month";
+
+export interface RollupPeriod {
+  kind: RollupKind;
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  label: string; // "Week 42, 2026" / "October 2026"
+  path: string;
+}
+
+interface ParsedSourceDay {
+  date: string;
+  file: TFile;
+  entries: TimelineEntry[];
+  sections: { heading: string; lines: string[] }[];
+}
+
+function wikilink(target: string, display: string): string {
+  return target === display ? `[[${target}]]` : `[[${target}|${display}]]`;
+}
+
+/**
+ * Replace the generated block between the markers, or append one
+ */
+export function replaceRollupBlock(content: string, block: string): string {
+  const start = content.indexOf(ROLLUP_START);
+  const end = content.indexOf(ROLLUP_END);
+  if (start >= 0 && end > start) {
+    return content.slice(0, start) + block + content.slice(end + ROLLUP_END.length);
+  }
+  return `${content.trimEnd()}\n\n${block}\n`;
+}
+
+export class RollupService implements SettingsAware {
+  private app: App;
+  private settings: TemporalDriftSettings;
+
+  constructor(app: App, settings: TemporalDriftSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: TemporalDriftSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * The week (Monday-Sunday) or calendar month containing a date
+   */
+  getPeriod(kind: RollupKind, date: Date): RollupPeriod {
+    const folder = this.settings.rollupFolder;
+
+    if (kind === "week") {
+      const start = getWeekStart(date);
+      const { year, week } = getISOWeek(date);
+      const ww = week.toString().padStart(2, "0");
+      return {
+        kind,
+        start: formatDate(start),
+        end: formatDate(addDays(start, 6)),
+        label: `Week ${week}, ${year}`,
+        path: normalizePath(`${folder}/${year}-W${ww}.md`),
+      };
+    }
+
+    const start = new Date(date.getFullYear(), date.getMonth(), 1);
+    const end = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    return {
+      kind,
+      start: formatDate(start),
+      end: formatDate(end),
+      label: `${getMonthName(date, false)} ${date.getFullYear()}`,
+      path: normalizePath(`${folder}/${formatDate(start).slice(0, 7)}.md`),
+    };
+  }
+
+  /**
+   * The period a rollup note was generated for ("2026-W42.md", "2026-10.md")
+   */
+  getPeriodForPath(path: string): RollupPeriod | null {
+    const prefix = normalizePath(this.settings.rollupFolder + "/");
+    if (!normalizePath(path).startsWith(prefix)) return null;
+
+    const name = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+    const week = name.match(/^(\d{4})-W(\d{2})$/);
+    if (week) {
+      // Jan 4th is always in ISO week 1
+      const jan4 = new Date(Number(week[1]), 0, 4);
+      return this.getPeriod("week", addDays(getWeekStart(jan4), (Number(week[2]) - 1) * 7));
+    }
+    const month = name.match(/^(\d{4})-(\d{2})$/);
+    if (month) {
+      return this.getPeriod("month", new Date(Number(month[1]), Number(month[2]) - 1, 1));
+    }
+    return null;
+  }
+
+  /**
+   * Create the rollup note for a period, or regenerate its block in place
+   */
+  async writeRollup(period: RollupPeriod): Promise<TFile> {
+    const block = `${ROLLUP_START}\n${await this.buildContent(period)}\n${ROLLUP_END}`;
+
+    const existing = this.app.vault.getAbstractFileByPath(period.path);
+    if (existing instanceof TFile) {
+      await this.app.vault.process(existing, (content) => replaceRollupBlock(content, block));
+      return existing;
+    }
+
+    await ensureParentFolders(this.app, period.path);
+    return await this.app.vault.create(period.path, `# ${period.label}\n\n${block}\n`);
+  }
+
+  /**
+   * Automatic creation: last week's and last month's rollups, once they are
+   * over, if they have daily notes and no rollup yet
+   */
+  async createMissingRollups(): Promise<void> {
+    const today = getLogicalDate(new Date(), this.settings.dayStartsAt);
+    const lastWeek = this.getPeriod("week", addDays(getWeekStart(today), -1));
+    const lastMonth = this.getPeriod("month", new Date(today.getFullYear(), today.getMonth(), 0));
+
+    for (const period of [lastWeek, lastMonth]) {
+      if (this.app.vault.getAbstractFileByPath(period.path)) continue;
+      if ((await this.loadDays(period)).length === 0) continue;
+      await this.writeRollup(period);
+    }
+  }
+
+  private async loadDays(period: RollupPeriod): Promise<ParsedSourceDay[]> {
+    const days: ParsedSourceDay[] = [];
+    for (let d = parseDate(period.start); formatDate(d) <= period.end; d = addDays(d, 1)) {
+      const date = formatDate(d);
+      const file = this.app.vault.getAbstractFileByPath(resolveDailyNotePath(this.app, this.settings, date));
+      if (!(file instanceof TFile)) continue;
+
+      const content = await this.app.vault.cachedRead(file);
+      const doc = parseDailyNote(content, this.settings.sections, this.settings.taskStatuses);
+      days.push({
+        date,
+        file,
+        entries: doc.entries,
+        sections: doc.daySections.map((s) => ({
+          heading: s.heading,
+          lines: s.content ? s.content.split("\n") : [],
+        })),
+      });
+    }
+    return days;
+  }
+
+  /**
+   * The generated markdown (without markers)
+   */
+  async buildContent(period: RollupPeriod): Promise<string> {
+    const days = await this.loadDays(period);
+    const out: string[] = [];
+
+    const link = (day: ParsedSourceDay, entry?: TimelineEntry) => {
+      const target = this.app.metadataCache.fileToLinktext(day.file, period.path);
+      const display = entry ? `${day.date} ${formatTimeString(entry.time, this.settings.timeFormat)}` : day.date;
+      return wikilink(target, display);
+    };
+    const item = (line: string) => line.replace(/^[-*+]\s+(\[.\]\s+)?/, "");
+
+    // Configured sections (Thankful, Focus, ...)
+    for (const config of this.settings.sections) {
+      if (!config.heading.trim()) continue;
+      const lines = days.flatMap((day) =>
+        (day.sections.find((s) => s.heading === config.heading)?.lines ?? []).map(
+          (line) => `- ${item(line)} (${link(day)})`
+        )
+      );
+      if (lines.length > 0) out.push(`## ${config.heading}`, "", ...lines, "");
+    }
+
+    // Completed tasks (ticked off, not cancelled)
+    const done = getDoneStatus(this.settings.taskStatuses).id;
+    const completed = days.flatMap((day) =>
+      day.entries
+        .filter((e) => e.type === "task" && e.status === done)
+        .map((e) => `- ${item(e.head)} (${link(day, e)})`)
+    );
+    if (completed.length > 0) out.push("## Completed tasks", "", ...completed, "");
+
+    // Meetings grouped by person
+    const byPerson = new Map<string, string[]>();
+    for (const day of days) {
+      for (const entry of day.entries.filter((e) => e.type === "event")) {
+        const title = entry.primaryLink ? wikilink(entry.primaryLink.target, entry.title) : entry.title;
+        const line = `- ${title} (${link(day, entry)})`;
+        const people = entry.participants.length > 0 ? entry.participants.map((p) => `[[${p.target}]]`) : ["Other"];
+        for (const person of people) {
+          byPerson.set(person, [...(byPerson.get(person) ?? []), line]);
+        }
+      }
+    }
+    if (byPerson.size > 0) {
+      out.push("## Meetings", "");
+      const people = [...byPerson.keys()].sort((a, b) => (a === "Other" ? 1 : b === "Other" ? -1 : a.localeCompare(b)));
+      for (const person of people) {
+        out.push(`### ${person}`, "", ...byPerson.get(person)!, "");
+      }
+    }
+
+    // Entry counts per day (escaped pipes keep aliases working inside the table)
+    out.push("## Entries per day", "", "| Day | Entries |", "| --- | --- |");
+    for (const day of days) {
+      const dayName = getDayName(parseDate(day.date));
+      out.push(`| ${dayName} ${link(day).replace("|", "\\|")} | ${day.entries.length} |`);
+    }
+    if (days.length === 0) out.push("| No daily notes | 0 |");
+
+    return out.join("\n");
+  }
+}
@@ -1,9 +1,31 @@
 // ============================================================================
 // Task Index Service - O(1) Task Queries
+//
+// Indexes task notes in the tasks folder and, depending on settings, inline
+// checkbox tasks in daily notes or any note. Inline tasks are keyed by
+// "<note>#^<block id>", or "<note>#<task text>" without one, so the key
+// survives lines being added or moved around it. They only have a status:
+// toggling edits the checkbox in place.
+//
+// The index is cached as JSON next to the plugin's data.json with each
+// note's mtime and size. Startup restores the cache right away, then, once
+// the metadata cache has resolved, reindexes only notes that were added,
+// changed or removed since.
+//
+// Views subscribe with taskIndex.on("changed", ...); the event fires (batched)
+// after any task is added, updated or removed. "status-changed" fires when a
+// status is set through toggleStatus.
 // ============================================================================
 
-import { App, TFile, CachedMetadata } from "obsidian";
-import { TemporalDriftSettings, SettingsAware, TaskMeta } from "../types";
+import { App, EventRef, Events, TFile, CachedMetadata, debounce, normalizePath } from "obsidian";
+import { TemporalDriftSettings, SettingsAware, TaskMeta, TaskSource, TaskUpdate } from "../types";
+import { FRONTMATTER_RE, parseWikilinkDisplay } from "../parser/daily-note-parser";
+import { InlineTask, findInlineTask, parseInlineTasks, setInlineTaskMarker } from "../parser/inline-tasks";
+import { removeTimeLog } from "../parser/time-log";
+import { getDefaultStatus, getDoneStatus, getStatusForMarker, getTaskStatus, isClosedStatus } from "../utils/task-status";
+import { ensureParentFolders, getDailyNoteDate, isDailyNotePath } from "../utils/daily-note-path";
+import { getNextDueDate, parseRecurrence } from "../utils/recurrence";
+import { formatDate, formatTimestamp, getLogicalDate, parseDuration } from "../utils/time";
 
 // File-level mutex for race condition prevention
 const FILE_LOCKS = new Map<string, Promise<void>>();
@@ -23,7 +45,115 @@ async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
   }
 }
 
-export class TaskIndexService implements SettingsAware {
+const CACHE_VERSION = 2;
+
+interface FileStat {
+  mtime: number;
+  size: number;
+}
+
+interface TaskIndexCache {
+  version: number;
+  settings: string; // see indexSettingsKey; a mismatch means a full rebuild
+  files: Record<string, FileStat & { tasks: TaskMeta[] }>;
+}
+
+/**
+ * How the index was last loaded, for diagnosing slow startups
+ */
+export interface TaskIndexMetrics {
+  source: "cache" | "full";
+  cacheLoadMs: number; // reading and restoring the cache
+  indexMs: number; // reconciling changed notes, or the full build
+  filesReused: number;
+  filesIndexed: number;
+  filesRemoved: number;
+  tasks: number;
+}
+
+// Settings that change what gets indexed, or how
+function indexSettingsKey(settings: TemporalDriftSettings): string {
+  return JSON.stringify([
+    settings.tasksFolder,
+    settings.inlineTasks,
+    settings.dailyNotesFolder,
+    settings.dailyNotePathPattern,
+    settings.defaultPriority,
+    settings.taskStatuses,
+  ]);
+}
+
+// TaskMeta fields spelled differently in frontmatter
+const FRONTMATTER_KEYS: Partial<Record<keyof TaskUpdate, string>> = {
+  waitingOn: "waiting_on",
+  blockedBy: "blocked_by",
+  timeSpent: "time_spent",
+};
+
+// Frontmatter of one instance of a recurring task, not copied to the next
+const INSTANCE_KEYS = ["status", "completed", "scheduled", "next", "previous", "time_spent"];
+
+// Fields indexed by link target and written back as wikilinks
+const LINK_FIELDS = new Set<keyof TaskUpdate>(["project", "waitingOn", "blockedBy"]);
+
+function toText(value: unknown): string | undefined {
+  if (Array.isArray(value)) return toText(value.flat(Infinity)[0]);
+  if (value === null || value === undefined) return undefined;
+  return String(value).trim() || undefined;
+}
+
+// "[[Apollo]]" / "[[Projects/Apollo|Apollo]]" -> link target; plain text as-is.
+// Unquoted [[Apollo]] in YAML arrives as a nested array, which toText unwraps.
+function toLinkTarget(value: unknown): string | undefined {
+  const text = toText(value);
+  const link = text?.match(/^\[\[([^\]]+)\]\]$/);
+  return link ? parseWikilinkDisplay(link[1]).target : text;
+}
+
+// One or more links: a YAML list, or "[[A]], [[B]]" in a single string
+function toLinkTargets(value: unknown): string[] {
+  const list = Array.isArray(value) ? value.flat(Infinity) : [value];
+  return list.flatMap((item) => {
+    const text = toText(item);
+    if (!text) return [];
+    const links = [...text.matchAll(/\[\[([^\]]+)\]\]/g)].map((m) => parseWikilinkDisplay(m[1]).target);
+    return links.length > 0 ? links : [text];
+  });
+}
+
+function toTags(value: unknown): string[] {
+  const list = Array.isArray(value) ? value.flat() : typeof value === "string" ? value.split(/[,\s]+/) : [];
+  return [...new Set(list.map((t) => String(t).trim().replace(/^#/, "")).filter(Boolean))];
+}
+
+// "#errand" in the text of an inline task
+function inlineTags(text: string): string[] {
+  return toTags([...text.matchAll(/(?:^|\s)#([\w/-]+)/g)].map((m) => m[1]));
+}
+
+/**
+ * Estimate in minutes: 90, "90m", "1h30m", "1.5h", "2 hours"
+ */
+export function parseEstimate(value: unknown): number | undefined {
+  if (typeof value === "number") return value > 0 ? Math.round(value) : undefined;
+  const text = toText(value);
+  return text ? parseDuration(text) : undefined;
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string | undefined, path: string): void {
+  if (key === undefined) return;
+  if (!index.has(key)) index.set(key, new Set());
+  index.get(key)!.add(path);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string | undefined, path: string): void {
+  if (key === undefined) return;
+  const paths = index.get(key);
+  paths?.delete(path);
+  if (paths?.size === 0) index.delete(key);
+}
+
+export class TaskIndexService extends Events implements SettingsAware {
   private app: App;
   private settings: TemporalDriftSettings;
 
@@ -31,35 +161,241 @@ export class TaskIndexService implements SettingsAware {
   private byPriority = new Map<string, Set<string>>();
   // Index by status
   private byStatus = new Map<string, Set<string>>();
+  // Secondary indexes for grouping and filtering
+  private byProject = new Map<string, Set<string>>();
+  private byTag = new Map<string, Set<string>>();
+  private byContext = new Map<string, Set<string>>();
+  private byWaitingOn = new Map<string, Set<string>>();
   // Full metadata by path
   private metadata = new Map<string, TaskMeta>();
+  // Inline task paths by the note they are in
+  private inlineByNote = new Map<string, string[]>();
+  // Dependency graph (path -> prerequisite paths) and cycles; rebuilt lazily after changes
+  private dependencies: { graph: Map<string, string[]>; inCycle: Set<string> } | null = null;
+
+  // mtime and size of every note as last indexed, task or not
+  private fileStats = new Map<string, FileStat>();
 
   private initialized = false;
+  // indexSettingsKey of the settings the index was built with; a change rebuilds it
+  private indexedWith = "";
+  private metrics: TaskIndexMetrics | null = null;
+
+  private cachePath: string | null;
+  private saveCacheSoon = debounce(() => void this.saveCache(), 2000, true);
+  private notifyChanged = debounce(() => this.trigger("changed"), 50, true);
 
-  constructor(app: App, settings: TemporalDriftSettings) {
+  constructor(app: App, settings: TemporalDriftSettings, cachePath: string | null = null) {
+    super();
     this.app = app;
     this.settings = settings;
+    this.cachePath = cachePath;
+  }
+
+  on(name: "changed", callback: () => unknown, ctx?: unknown): EventRef;
+  on(
+    name: "status-changed",
+    callback: (path: string, previous: string | undefined, status: string, completed: string | undefined) => unknown,
+    ctx?: unknown
+  ): EventRef;
+  on(name: string, callback: (...data: any[]) => unknown, ctx?: unknown): EventRef {
+    return super.on(name, callback, ctx);
   }
 
   updateSettings(settings: TemporalDriftSettings): void {
     this.settings = settings;
+    if (this.initialized && indexSettingsKey(settings) !== this.indexedWith) void this.buildIndex();
+  }
+
+  /**
+   * Startup: restore the cached index so tasks show up immediately, then
+   * bring it up to date once the metadata cache can be trusted. Without a
+   * usable cache this is a full build.
+   */
+  async loadIndex(): Promise<void> {
+    const started = Date.now();
+    const cache = await this.readCache();
+    if (cache) {
+      this.restore(cache);
+      this.initialized = true;
+      this.notifyChanged();
+    }
+    const restored = Date.now();
+
+    await this.whenMetadataResolved();
+
+    if (cache) {
+      const counts = await this.reconcile();
+      this.metrics = {
+        source: "cache",
+        cacheLoadMs: restored - started,
+        indexMs: Date.now() - restored,
+        ...counts,
+        tasks: this.metadata.size,
+      };
+      await this.saveCache();
+    } else {
+      await this.buildIndex();
+      this.metrics!.cacheLoadMs = restored - started;
+    }
   }
 
   /**
    * Build the task index from vault
    */
   async buildIndex(): Promise<void> {
+    const started = Date.now();
     this.clear();
+    this.indexedWith = indexSettingsKey(this.settings);
 
-    const files = this.app.vault
-      .getMarkdownFiles()
-      .filter((f) => f.path.startsWith(this.settings.tasksFolder));
+    let indexed = 0;
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (await this.indexNote(file)) indexed++;
+    }
 
-    for (const file of files) {
+    this.initialized = true;
+    this.notifyChanged();
+    this.metrics = {
+      source: "full",
+      cacheLoadMs: 0,
+      indexMs: Date.now() - started,
+      filesReused: 0,
+      filesIndexed: indexed,
+      filesRemoved: 0,
+      tasks: this.metadata.size,
+    };
+    await this.saveCache();
+  }
+
+  /**
+   * Timings and counts of the last load, null before the index is ready
+   */
+  getMetrics(): TaskIndexMetrics | null {
+    return this.metrics;
+  }
+
+  /**
+   * Index a task note or the inline tasks of a note, whichever applies.
+   * Returns false for notes that aren't indexed.
+   */
+  private async indexNote(file: TFile): Promise<boolean> {
+    if (file.path.startsWith(this.settings.tasksFolder)) {
       await this.indexFile(file);
+    } else if (this.indexesInlineTasks(file.path)) {
+      this.indexInlineTasks(file, await this.app.vault.cachedRead(file));
+    } else {
+      return false;
     }
+    return true;
+  }
 
-    this.initialized = true;
+  /**
+   * Reindex notes added or changed since the cache was written and drop the
+   * ones that are gone (or no longer indexed)
+   */
+  private async reconcile(): Promise<{ filesReused: number; filesIndexed: number; filesRemoved: number }> {
+    const counts = { filesReused: 0, filesIndexed: 0, filesRemoved: 0 };
+    const seen = new Set<string>();
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const indexed = file.path.startsWith(this.settings.tasksFolder) || this.indexesInlineTasks(file.path);
+      if (!indexed) continue;
+      seen.add(file.path);
+
+      const stat = this.fileStats.get(file.path);
+      if (stat && stat.mtime === file.stat.mtime && stat.size === file.stat.size) {
+        counts.filesReused++;
+        continue;
+      }
+      this.removeNote(file.path);
+      await this.indexNote(file);
+      counts.filesIndexed++;
+    }
+
+    for (const path of [...this.fileStats.keys()]) {
+      if (seen.has(path)) continue;
+      this.removeNote(path);
+      counts.filesRemoved++;
+    }
+    return counts;
+  }
+
+  /**
+   * Resolves once every note has been parsed by the metadata cache; before
+   * that getFileCache can return null and task notes would be skipped
+   */
+  private whenMetadataResolved(): Promise<void> {
+    const { metadataCache, vault } = this.app;
+    if (vault.getMarkdownFiles().every((file) => metadataCache.getFileCache(file))) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const ref = metadataCache.on("resolved", () => {
+        metadataCache.offref(ref);
+        resolve();
+      });
+    });
+  }
+
+  private async readCache(): Promise<TaskIndexCache | null> {
+    if (!this.cachePath) return null;
+    const adapter = this.app.vault.adapter;
+    try {
+      if (!(await adapter.exists(this.cachePath))) return null;
+      const cache = JSON.parse(await adapter.read(this.cachePath)) as TaskIndexCache;
+      if (cache.version !== CACHE_VERSION || cache.settings !== indexSettingsKey(this.settings)) return null;
+      return cache;
+    } catch (error) {
+      console.error("Temporal Drift: Could not read task index cache", error);
+      return null;
+    }
+  }
+
+  private restore(cache: TaskIndexCache): void {
+    this.clear();
+    this.indexedWith = cache.settings;
+
+    for (const [path, entry] of Object.entries(cache.files)) {
+      this.fileStats.set(path, { mtime: entry.mtime, size: entry.size });
+      for (const meta of entry.tasks) {
+        this.addToIndex(meta);
+        if (meta.source) this.inlineByNote.set(path, [...(this.inlineByNote.get(path) ?? []), meta.path]);
+      }
+    }
+  }
+
+  /**
+   * Write the index to the cache file
+   */
+  async saveCache(): Promise<void> {
+    if (!this.cachePath || !this.initialized) return;
+
+    const files: TaskIndexCache["files"] = {};
+    for (const [path, stat] of this.fileStats) {
+      const paths = this.inlineByNote.get(path) ?? (this.metadata.has(path) ? [path] : []);
+      files[path] = { ...stat, tasks: paths.map((p) => this.metadata.get(p)!).filter(Boolean) };
+    }
+    const cache: TaskIndexCache = { version: CACHE_VERSION, settings: this.indexedWith, files };
+
+    try {
+      await this.app.vault.adapter.write(this.cachePath, JSON.stringify(cache));
+    } catch (error) {
+      console.error("Temporal Drift: Could not write task index cache", error);
+    }
+  }
+
+  /**
+   * Whether checkbox lines in a note are indexed as inline tasks
+   */
+  indexesInlineTasks(path: string): boolean {
+    if (path.startsWith(this.settings.tasksFolder)) return false;
+    switch (this.settings.inlineTasks) {
+      case "all-notes":
+        return true;
+      case "daily-notes":
+        return isDailyNotePath(this.settings, path);
+      default:
+        return false;
+    }
   }
 
   /**
@@ -68,7 +404,15 @@ export class TaskIndexService implements SettingsAware {
   private clear(): void {
     this.byPriority.clear();
     this.byStatus.clear();
+    this.byProject.clear();
+    this.byTag.clear();
+    this.byContext.clear();
+    this.byWaitingOn.clear();
     this.metadata.clear();
+    this.inlineByNote.clear();
+    this.fileStats.clear();
+    this.dependencies = null;
+    this.notifyChanged();
   }
 
   /**
@@ -77,6 +421,7 @@ export class TaskIndexService implements SettingsAware {
   private async indexFile(file: TFile): Promise<void> {
     const cache = this.app.metadataCache.getFileCache(file);
     if (!cache) return;
+    this.fileStats.set(file.path, { mtime: file.stat.mtime, size: file.stat.size });
 
     const fm = cache.frontmatter;
     if (!fm) return;
@@ -84,25 +429,83 @@ export class TaskIndexService implements SettingsAware {
     const meta: TaskMeta = {
       path: file.path,
       title: file.basename,
-      status: fm.status || "open",
+      status: toText(fm.status) ?? getDefaultStatus(this.settings.taskStatuses).id,
       priority: fm.priority || this.settings.defaultPriority,
-      due: fm.due,
-      created: fm.created,
+      due: toText(fm.due),
+      created: toText(fm.created),
+      project: toLinkTarget(fm.project),
+      tags: toTags(fm.tags),
+      scheduled: toText(fm.scheduled),
+      estimate: parseEstimate(fm.estimate),
+      timeSpent: parseEstimate(fm.time_spent),
+      completed: toText(fm.completed),
+      waitingOn: toLinkTarget(fm.waiting_on),
+      context: toText(fm.context),
+      recurrence: toText(fm.recurrence),
+      blockedBy: toLinkTargets(fm.blocked_by),
     };
 
-    this.metadata.set(file.path, meta);
+    this.addToIndex(meta);
+  }
 
-    // Index by priority
-    if (!this.byPriority.has(meta.priority)) {
-      this.byPriority.set(meta.priority, new Set());
-    }
-    this.byPriority.get(meta.priority)!.add(file.path);
+  /**
+   * Index the checkbox lines of a note
+   */
+  private indexInlineTasks(file: TFile, content: string): void {
+    this.fileStats.set(file.path, { mtime: file.stat.mtime, size: file.stat.size });
+    const created = getDailyNoteDate(this.settings, file.path) ?? undefined;
+    const paths: string[] = [];
+
+    for (const task of parseInlineTasks(content)) {
+      if (this.isTaskNoteReference(task, file.path)) continue;
+
+      // The same text twice in a note: "<note>#Call Anna (2)"
+      let path = task.blockId ? `${file.path}#^${task.blockId}` : `${file.path}#${task.text}`;
+      if (this.metadata.has(path)) {
+        if (task.blockId) continue; // duplicate block id
+        let n = 2;
+        while (this.metadata.has(`${path} (${n})`)) n++;
+        path = `${path} (${n})`;
+      }
 
-    // Index by status
-    if (!this.byStatus.has(meta.status)) {
-      this.byStatus.set(meta.status, new Set());
+      this.addToIndex({
+        path,
+        title: task.title,
+        status: getStatusForMarker(this.settings.taskStatuses, task.marker).id,
+        priority: this.settings.defaultPriority,
+        created,
+        tags: inlineTags(task.text),
+        blockedBy: [],
+        source: { path: file.path, line: task.line, blockId: task.blockId, text: task.text },
+      });
+      paths.push(path);
     }
-    this.byStatus.get(meta.status)!.add(file.path);
+
+    if (paths.length > 0) this.inlineByNote.set(file.path, paths);
+  }
+
+  /**
+   * "- [ ] [[Task]]" in a timeline stands for a task note, which is indexed
+   * on its own
+   */
+  isTaskNoteReference(task: InlineTask, sourcePath: string): boolean {
+    if (!task.text.startsWith("[[") || task.links.length === 0) return false;
+    const dest = this.app.metadataCache.getFirstLinkpathDest(task.links[0].target, sourcePath);
+    return !!dest && dest.path.startsWith(this.settings.tasksFolder);
+  }
+
+  private addToIndex(meta: TaskMeta): void {
+    const path = meta.path;
+    this.metadata.set(path, meta);
+    this.dependencies = null;
+    this.notifyChanged();
+
+    addToIndex(this.byPriority, meta.priority, path);
+    addToIndex(this.byStatus, meta.status, path);
+    addToIndex(this.byProject, meta.project, path);
+    meta.tags.forEach((tag) => addToIndex(this.byTag, tag, path));
+    addToIndex(this.byContext, meta.context, path);
+    addToIndex(this.byWaitingOn, meta.waitingOn, path);
   }
 
   /**
@@ -112,35 +515,67 @@ export class TaskIndexService implements SettingsAware {
     const meta = this.metadata.get(path);
     if (!meta) return;
 
-    this.byPriority.get(meta.priority)?.delete(path);
-    this.byStatus.get(meta.status)?.delete(path);
+    removeFromIndex(this.byPriority, meta.priority, path);
+    removeFromIndex(this.byStatus, meta.status, path);
+    removeFromIndex(this.byProject, meta.project, path);
+    meta.tags.forEach((tag) => removeFromIndex(this.byTag, tag, path));
+    removeFromIndex(this.byContext, meta.context, path);
+    removeFromIndex(this.byWaitingOn, meta.waitingOn, path);
     this.metadata.delete(path);
+    this.dependencies = null;
+    this.notifyChanged();
   }
 
   /**
-   * Handle file modification - reindex
+   * Remove everything indexed from a note
    */
-  async onFileModify(file: TFile): Promise<void> {
-    if (!file.path.startsWith(this.settings.tasksFolder)) return;
-    this.removeFromIndex(file.path);
-    await this.indexFile(file);
+  private removeNote(path: string): void {
+    this.removeFromIndex(path);
+    this.removeInlineTasks(path);
+    this.fileStats.delete(path);
+  }
+
+  /**
+   * Remove the inline tasks of a note
+   */
+  private removeInlineTasks(notePath: string): void {
+    (this.inlineByNote.get(notePath) ?? []).forEach((path) => this.removeFromIndex(path));
+    this.inlineByNote.delete(notePath);
+  }
+
+  /**
+   * Handle file modification - reindex. With the note's content (from the
+   * metadata cache "changed" event) inline tasks are reindexed synchronously.
+   */
+  async onFileModify(file: TFile, content?: string): Promise<void> {
+    if (file.path.startsWith(this.settings.tasksFolder)) {
+      this.removeFromIndex(file.path);
+      await this.indexFile(file);
+    } else if (this.indexesInlineTasks(file.path)) {
+      const text = content ?? (await this.app.vault.cachedRead(file));
+      this.removeInlineTasks(file.path);
+      this.indexInlineTasks(file, text);
+    } else {
+      return;
+    }
+    this.saveCacheSoon();
   }
 
   /**
    * Handle file deletion
    */
   onFileDelete(file: TFile): void {
-    this.removeFromIndex(file.path);
+    this.removeNote(file.path);
+    this.saveCacheSoon();
   }
 
   /**
    * Handle file rename
    */
   async onFileRename(file: TFile, oldPath: string): Promise<void> {
-    this.removeFromIndex(oldPath);
-    if (file.path.startsWith(this.settings.tasksFolder)) {
-      await this.indexFile(file);
-    }
+    this.removeNote(oldPath);
+    this.saveCacheSoon();
+    await this.onFileModify(file);
   }
 
   /**
@@ -160,10 +595,165 @@ export class TaskIndexService implements SettingsAware {
   }
 
   /**
-   * Get all open tasks grouped by priority
+   * Get tasks by project (link target, e.g. "Apollo")
+   */
+  getByProject(project: string): TaskMeta[] {
+    return this.lookup(this.byProject, project);
+  }
+
+  /**
+   * Get tasks by tag (without "#")
+   */
+  getByTag(tag: string): TaskMeta[] {
+    return this.lookup(this.byTag, tag.replace(/^#/, ""));
+  }
+
+  /**
+   * Get tasks by context (e.g. "@home")
+   */
+  getByContext(context: string): TaskMeta[] {
+    return this.lookup(this.byContext, context);
+  }
+
+  /**
+   * Get tasks waiting on someone (link target)
+   */
+  getByWaitingOn(person: string): TaskMeta[] {
+    return this.lookup(this.byWaitingOn, person);
+  }
+
+  /**
+   * Distinct values currently in use, for grouping
+   */
+  getProjects(): string[] {
+    return [...this.byProject.keys()].sort();
+  }
+
+  getTags(): string[] {
+    return [...this.byTag.keys()].sort();
+  }
+
+  getContexts(): string[] {
+    return [...this.byContext.keys()].sort();
+  }
+
+  private lookup(index: Map<string, Set<string>>, key: string): TaskMeta[] {
+    const paths = index.get(key) || new Set();
+    return [...paths].map((p) => this.metadata.get(p)!).filter(Boolean);
+  }
+
+  /**
+   * Resolve "blocked_by" links into a graph of indexed tasks and find the
+   * tasks that are part of a dependency cycle
+   */
+  private getDependencies(): { graph: Map<string, string[]>; inCycle: Set<string> } {
+    if (this.dependencies) return this.dependencies;
+
+    const graph = new Map<string, string[]>();
+    for (const meta of this.metadata.values()) {
+      const prerequisites = meta.blockedBy
+        .map((target) => this.app.metadataCache.getFirstLinkpathDest(target, meta.path)?.path)
+        .filter((p): p is string => !!p && p !== meta.path && this.metadata.has(p));
+      if (prerequisites.length > 0) graph.set(meta.path, [...new Set(prerequisites)]);
+    }
+
+    // Depth-first search; a back edge to a task on the current path closes a cycle
+    const inCycle = new Set<string>();
+    const state = new Map<string, "visiting" | "done">();
+    const stack: string[] = [];
+    const visit = (path: string) => {
+      state.set(path, "visiting");
+      stack.push(path);
+      for (const next of graph.get(path) ?? []) {
+        if (state.get(next) === "visiting") {
+          stack.slice(stack.indexOf(next)).forEach((p) => inCycle.add(p));
+        } else if (!state.has(next)) {
+          visit(next);
+        }
+      }
+      stack.pop();
+      state.set(path, "done");
+    };
+    for (const path of graph.keys()) {
+      if (!state.has(path)) visit(path);
+    }
+    if (inCycle.size > 0) console.warn("Temporal Drift: task dependency cycle", [...inCycle]);
+
+    this.dependencies = { graph, inCycle };
+    return this.dependencies;
+  }
+
+  /**
+   * Tasks a task depends on (its resolved "blocked_by" links)
+   */
+  getPrerequisites(path: string): TaskMeta[] {
+    return (this.getDependencies().graph.get(path) ?? []).map((p) => this.metadata.get(p)!);
+  }
+
+  /**
+   * Prerequisites that are still open
+   */
+  getBlockers(path: string): TaskMeta[] {
+    return this.getPrerequisites(path).filter((t) => !isClosedStatus(this.settings.taskStatuses, t.status));
+  }
+
+  /**
+   * Tasks that depend on a task
+   */
+  getDependents(path: string): TaskMeta[] {
+    return [...this.getDependencies().graph]
+      .filter(([, prerequisites]) => prerequisites.includes(path))
+      .map(([dependent]) => this.metadata.get(dependent)!);
+  }
+
+  /**
+   * Whether a task is part of a dependency cycle (A blocked by B blocked by A)
+   */
+  isInDependencyCycle(path: string): boolean {
+    return this.getDependencies().inCycle.has(path);
+  }
+
+  /**
+   * Blocked while any prerequisite is open. Tasks in a cycle can never be
+   * unblocked by completing the others, so they count as blocked too.
+   */
+  isBlocked(path: string): boolean {
+    return this.isInDependencyCycle(path) || this.getBlockers(path).length > 0;
+  }
+
+  /**
+   * Unfinished tasks that are blocked, sorted by title
+   */
+  getBlockedTasks(): TaskMeta[] {
+    return this.getPathsByClosed(false)
+      .filter((path) => this.isBlocked(path))
+      .map((path) => this.metadata.get(path)!)
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  /**
+   * Every indexed task
+   */
+  getAll(): TaskMeta[] {
+    return [...this.metadata.values()];
+  }
+
+  /**
+   * Paths of tasks whose status is (not) closed
+   */
+  private getPathsByClosed(closed: boolean): string[] {
+    return [...this.byStatus]
+      .filter(([status]) => isClosedStatus(this.settings.taskStatuses, status) === closed)
+      .flatMap(([, paths]) => [...paths]);
+  }
+
+  /**
+   * Get all unfinished tasks (open, in progress, waiting, ...) grouped by
+   * priority. Blocked tasks are left out (see getBlockedTasks) until their
+   * prerequisites are done.
    */
   getOpenTasksByPriority(): Record<string, TaskMeta[]> {
-    const openPaths = this.byStatus.get("open") || new Set();
+    const openPaths = this.getPathsByClosed(false).filter((path) => !this.isBlocked(path));
     const result: Record<string, TaskMeta[]> = {
       now: [],
       next: [],
@@ -199,61 +789,214 @@ export class TaskIndexService implements SettingsAware {
   }
 
   /**
-   * Toggle task status with file lock
+   * Write task fields to frontmatter with file lock. Keys set to undefined
+   * are removed; everything else in the frontmatter is left alone.
+   * Inline tasks only have a status; other changes to them are ignored.
    */
-  async toggleStatus(path: string, newStatus: "open" | "done"): Promise<void> {
+  async updateTask(path: string, changes: TaskUpdate): Promise<void> {
+    const source = this.metadata.get(path)?.source;
+    if (source) {
+      if (changes.status !== undefined) await this.setInlineStatus(source, changes.status);
+      return;
+    }
+
     await withFileLock(path, async () => {
       const file = this.app.vault.getAbstractFileByPath(path);
       if (!(file instanceof TFile)) return;
 
-      await this.app.vault.process(file, (content) => {
-        // Update status in frontmatter
-        return content.replace(/^(---\n[\s\S]*?status:\s*)\w+/m, `$1${newStatus}`);
+      await this.app.fileManager.processFrontMatter(file, (fm) => {
+        for (const [field, value] of Object.entries(changes)) {
+          const key = FRONTMATTER_KEYS[field as keyof TaskUpdate] ?? field;
+          if (value === undefined || (Array.isArray(value) && value.length === 0)) delete fm[key];
+          else if (LINK_FIELDS.has(field as keyof TaskUpdate)) {
+            fm[key] = Array.isArray(value) ? value.map((v) => `[[${v}]]`) : `[[${value}]]`;
+          }
+          else fm[key] = value;
+        }
       });
     });
   }
 
   /**
-   * Update task priority with file lock
+   * Add tracked minutes to a task note's "time_spent" and return the new total
    */
-  async updatePriority(path: string, newPriority: "now" | "next" | "later"): Promise<void> {
+  async addTimeSpent(path: string, minutes: number): Promise<number> {
+    let total = minutes;
     await withFileLock(path, async () => {
       const file = this.app.vault.getAbstractFileByPath(path);
       if (!(file instanceof TFile)) return;
 
-      await this.app.vault.process(file, (content) => {
-        // Update priority in frontmatter
-        if (content.match(/^(---\n[\s\S]*?priority:\s*)\w+/m)) {
-          return content.replace(/^(---\n[\s\S]*?priority:\s*)\w+/m, `$1${newPriority}`);
-        } else {
-          // Add priority if not present
-          return content.replace(/^(---\n)/, `$1priority: ${newPriority}\n`);
+      await this.app.fileManager.processFrontMatter(file, (fm) => {
+        total = (parseEstimate(fm.time_spent) ?? 0) + minutes;
+        fm.time_spent = total;
+      });
+    });
+    return total;
+  }
+
+  /**
+   * Rewrite the checkbox marker of an inline task and reindex its note
+   */
+  private async setInlineStatus(source: TaskSource, status: string): Promise<void> {
+    const statuses = this.settings.taskStatuses;
+    const marker = (getTaskStatus(statuses, status) ?? getDefaultStatus(statuses)).marker;
+
+    await withFileLock(source.path, async () => {
+      const file = this.app.vault.getAbstractFileByPath(source.path);
+      if (!(file instanceof TFile)) return;
+
+      const content = await this.app.vault.process(file, (data) => {
+        const task = findInlineTask(data, source, source.text);
+        if (!task) {
+          console.warn("Temporal Drift: inline task not found, the note changed", source);
+          return data;
         }
+        return setInlineTaskMarker(data, task, marker);
+      });
+      this.removeInlineTasks(file.path);
+      this.indexInlineTasks(file, content);
+    });
+  }
+
+  /**
+   * Set task status (a TaskStatusConfig id). Completing a task note stamps
+   * "completed" (YYYY-MM-DDTHH:mm) and, if it recurs, creates its next
+   * instance; reopening it clears the stamp. Triggers "status-changed"
+   * (path, previous status, new status, the stamp set or cleared) once done.
+   */
+  async toggleStatus(path: string, newStatus: string): Promise<void> {
+    const task = this.metadata.get(path);
+    const previous = task?.status;
+    const done = getDoneStatus(this.settings.taskStatuses).id;
+
+    let completed = task?.completed;
+    const changes: TaskUpdate = { status: newStatus };
+    if (newStatus === done && previous !== done) {
+      completed = formatTimestamp(new Date());
+      changes.completed = completed;
+    } else if (previous === done && newStatus !== done) {
+      changes.completed = undefined;
+    }
+    await this.updateTask(path, changes);
+
+    if (newStatus === done) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) await this.createNextInstance(file);
+    }
+    this.trigger("status-changed", path, previous, newStatus, completed);
+  }
+
+  /**
+   * Create the next instance of a recurring task: same frontmatter and body,
+   * the next due date, linked both ways. The completed instance stays as it
+   * is (with the "completed" stamp toggleStatus wrote), so the chain of
+   * instances is the history.
+   * Does nothing if the task isn't recurring or already has a next instance.
+   */
+  private async createNextInstance(file: TFile): Promise<TFile | null> {
+    const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const rule = parseRecurrence(toText(fm?.recurrence) ?? "");
+    if (!fm || !rule || fm.next) return null;
+
+    const today = formatDate(getLogicalDate(new Date(), this.settings.dayStartsAt));
+    const due = getNextDueDate(rule, toText(fm.due), today);
+
+    // "Water plants 2026-10-19" -> "Water plants 2026-10-26"
+    const title = file.basename.replace(/ \d{4}-\d{2}-\d{2}$/, "");
+    const folder = file.parent?.path ?? this.settings.tasksFolder;
+    const path = normalizePath(`${folder}/${title} ${due}.md`);
+    if (this.app.vault.getAbstractFileByPath(path)) return null;
+
+    // Body with its checklists reset and without the time log
+    const body = removeTimeLog(
+      (await this.app.vault.read(file)).replace(FRONTMATTER_RE, "").replace(/^(\s*[-*+] )\[[^\]]\]/gm, "$1[ ]")
+    );
+    const next = await this.app.vault.create(path, body);
+
+    const carried = Object.fromEntries(Object.entries(fm).filter(([key]) => !INSTANCE_KEYS.includes(key)));
+    await this.app.fileManager.processFrontMatter(next, (nextFm) => {
+      Object.assign(nextFm, carried, {
+        status: getDefaultStatus(this.settings.taskStatuses).id,
+        due,
+        created: today,
+        previous: `[[${this.app.metadataCache.fileToLinktext(file, path)}]]`,
       });
     });
+
+    await withFileLock(file.path, () =>
+      this.app.fileManager.processFrontMatter(file, (doneFm) => {
+        doneFm.next = `[[${this.app.metadataCache.fileToLinktext(next, file.path)}]]`;
+      })
+    );
+
+    await this.indexFile(next);
+    return next;
   }
 
   /**
-   * Create a new task
+   * Update task priority
    */
-  async createTask(title: string, priority?: "now" | "next" | "later"): Promise<TFile> {
-    const safeName = title.replace(/[\\/:*?"<>|]/g, "-");
-    const path = `${this.settings.tasksFolder}/${safeName}.md`;
+  async updatePriority(path: string, newPriority: "now" | "next" | "later"): Promise<void> {
+    await this.updateTask(path, { priority: newPriority });
+  }
+
+  /**
+   * Create a new task. Other fields (due, tags, project, ...) are written to
+   * its frontmatter; a title that is already taken gets a " 2", " 3", ... suffix.
+   */
+  async createTask(title: string, fields: TaskUpdate = {}): Promise<TFile> {
+    const path = this.getAvailableTaskPath(title.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim() || "Untitled");
 
     const content = `---
-status: open
-priority: ${priority || this.settings.defaultPriority}
+status: ${getDefaultStatus(this.settings.taskStatuses).id}
+priority: ${fields.priority || this.settings.defaultPriority}
 created: ${new Date().toISOString().split("T")[0]}
 ---
 
 # ${title}
 `;
 
+    await ensureParentFolders(this.app, path);
     const file = await this.app.vault.create(path, content);
+
+    const extra = Object.fromEntries(
+      Object.entries(fields).filter(([key, value]) => key !== "priority" && value !== undefined)
+    );
+    if (Object.keys(extra).length > 0) await this.updateTask(file.path, extra);
+
     await this.indexFile(file);
     return file;
   }
 
+  /**
+   * "Tasks/Call Anna.md", or "Tasks/Call Anna 2.md" if that exists, ...
+   */
+  private getAvailableTaskPath(name: string): string {
+    const base = normalizePath(`${this.settings.tasksFolder}/${name}`);
+    if (!this.app.vault.getAbstractFileByPath(`${base}.md`)) return `${base}.md`;
+    for (let n = 2; ; n++) {
+      const path = `${base} ${n}.md`;
+      if (!this.app.vault.getAbstractFileByPath(path)) return path;
+    }
+  }
+
+  /**
+   * Create a task note from an inline task: same status and tags, with the
+   * original line and where it came from in the body. The caller replaces the
+   * inline text with a link to the new note.
+   */
+  async createTaskFromInline(task: InlineTask, sourcePath: string): Promise<TFile> {
+    const file = await this.createTask(task.title, {
+      status: getStatusForMarker(this.settings.taskStatuses, task.marker).id,
+      tags: inlineTags(task.text),
+    });
+
+    const source = this.app.vault.getAbstractFileByPath(sourcePath);
+    const from = source instanceof TFile ? `[[${this.app.metadataCache.fileToLinktext(source, file.path)}]]` : sourcePath;
+    await this.app.vault.process(file, (content) => `${content}\nFrom ${from}: ${task.text}\n`);
+    return file;
+  }
+
   /**
    * Check if index is ready
    */
@@ -265,13 +1008,10 @@ created: ${new Date().toISOString().split("T")[0]}
    * Get total task counts
    */
   getCounts(): { total: number; open: number; done: number; byPriority: Record<string, number> } {
-    const openPaths = this.byStatus.get("open") || new Set();
-    const donePaths = this.byStatus.get("done") || new Set();
-
     return {
       total: this.metadata.size,
-      open: openPaths.size,
-      done: donePaths.size,
+      open: this.getPathsByClosed(false).length,
+      done: this.getPathsByClosed(true).length,
       byPriority: {
         now: (this.byPriority.get("now") || new Set()).size,
         next: (this.byPriority.get("next") || new Set()).size,
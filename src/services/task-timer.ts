@@ -0,0 +1,235 @@
+// ============================================================================
+// Task Timer
+//
+// One running timer at a time, on a task note. Stopping it records the
+// session three ways:
+//
+//   - "09:00–10:30 [[Task]]" on the timeline of the day it started
+//   - the minutes added to "time_spent" in the task's frontmatter
+//   - "- 2026-10-19 09:00–10:30 (1h 30m)" in the task note's "## Time log"
+//
+// The running timer is kept in task-timer.json next to the plugin's data.json,
+// so it survives a restart. If recording fails partway, the timer keeps its
+// stop time and the steps already written, so stopping again finishes the
+// same session instead of logging it twice. Views subscribe with taskTimer.on("changed", ...).
+// ============================================================================
+
+import { App, Events, Notice, TFile } from "obsidian";
+import { SettingsAware, TemporalDriftSettings } from "../types";
+import { appendTimeLogLine } from "../parser/time-log";
+import { DailyNoteService } from "./daily-note";
+import { TaskIndexService } from "./task-index";
+import { formatDate, formatDuration, formatTime, getLogicalDate } from "../utils/time";
+import { resolveDailyNotePath } from "../utils/daily-note-path";
+
+type RecordStep = "time-spent" | "time-log" | "timeline";
+
+export interface ActiveTimer {
+  path: string; // task note
+  start: number; // epoch ms
+  // Set once stopping failed partway
+  end?: number; // epoch ms
+  recorded?: RecordStep[];
+  total?: number; // time_spent after the "time-spent" step
+}
+
+export interface TimerSession {
+  path: string;
+  title: string;
+  minutes: number;
+  total: number; // time_spent after this session
+}
+
+/**
+ * Notice text for a recorded session
+ */
+export function describeSession(session: TimerSession): string {
+  return `Temporal Drift: logged ${formatDuration(session.minutes)} on "${session.title}" (${formatDuration(session.total)} in total)`;
+}
+
+/**
+ * Notice for a timer that could not be started or stopped. Starting stops
+ * the running timer first, so a failed start may be a failed stop.
+ */
+export function reportTimerError(operation: "start" | "stop", error: unknown): void {
+  console.error(`Temporal Drift: could not ${operation} the task timer`, error);
+  new Notice(
+    operation === "stop"
+      ? "Temporal Drift: could not record the timed session; the timer is still running"
+      : "Temporal Drift: could not start the timer"
+  );
+}
+
+export class TaskTimer extends Events implements SettingsAware {
+  private app: App;
+  private settings: TemporalDriftSettings;
+  private taskIndex: TaskIndexService;
+  private dailyNoteService: DailyNoteService;
+  private statePath: string;
+  private active: ActiveTimer | null = null;
+  private stopping: Promise<TimerSession | null> | null = null;
+
+  constructor(
+    app: App,
+    settings: TemporalDriftSettings,
+    taskIndex: TaskIndexService,
+    dailyNoteService: DailyNoteService,
+    statePath: string
+  ) {
+    super();
+    this.app = app;
+    this.settings = settings;
+    this.taskIndex = taskIndex;
+    this.dailyNoteService = dailyNoteService;
+    this.statePath = statePath;
+  }
+
+  updateSettings(settings: TemporalDriftSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Restore a timer that was running when Obsidian closed
+   */
+  async load(): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.statePath))) return;
+    try {
+      const state = JSON.parse(await adapter.read(this.statePath)) as ActiveTimer | null;
+      this.active = state && typeof state.path === "string" && Number.isFinite(state.start) ? state : null;
+    } catch (e) {
+      console.error("Temporal Drift: could not read task timer", e);
+    }
+    this.trigger("changed");
+  }
+
+  private async save(): Promise<void> {
+    await this.app.vault.adapter.write(this.statePath, JSON.stringify(this.active));
+  }
+
+  getActive(): ActiveTimer | null {
+    return this.active;
+  }
+
+  isRunning(path: string): boolean {
+    return this.active?.path === path;
+  }
+
+  /**
+   * Start timing a task note, stopping (and recording) any other timer first.
+   * If that timer can't be stopped, this reports it and starts nothing;
+   * failing to start throws.
+   */
+  async start(path: string): Promise<TimerSession | null> {
+    if (this.isRunning(path)) return null;
+
+    let stopped: TimerSession | null;
+    try {
+      stopped = await this.stop();
+    } catch (error) {
+      reportTimerError("stop", error);
+      return null;
+    }
+
+    this.active = { path, start: Date.now() };
+    try {
+      await this.save();
+    } catch (error) {
+      this.active = null;
+      throw error;
+    } finally {
+      this.trigger("changed");
+    }
+    return stopped;
+  }
+
+  /**
+   * Stop the running timer and record the session. Sessions under a minute
+   * are dropped. Returns the recorded session, if any. The timer keeps
+   * running if the session can't be recorded (and the error is rethrown).
+   */
+  async stop(): Promise<TimerSession | null> {
+    const active = this.active;
+    if (!active) return null;
+    // Already being stopped (double click): wait for it, it reports the session
+    if (this.stopping) {
+      await this.stopping;
+      return null;
+    }
+
+    this.stopping = (async () => {
+      const session = await this.record(active);
+      this.active = null;
+      await this.save();
+      this.trigger("changed");
+      return session;
+    })();
+    try {
+      return await this.stopping;
+    } finally {
+      this.stopping = null;
+    }
+  }
+
+  private async record(active: ActiveTimer): Promise<TimerSession | null> {
+    const start = new Date(active.start);
+    const end = new Date(active.end ?? Date.now());
+    const minutes = Math.floor((end.getTime() - start.getTime()) / 60000);
+    const file = this.app.vault.getAbstractFileByPath(active.path);
+    if (minutes < 1 || !(file instanceof TFile)) return null;
+
+    active.end = end.getTime();
+    const recorded = (active.recorded ??= []);
+    await this.save();
+    const step = async (name: RecordStep, write: () => Promise<void>) => {
+      if (recorded.includes(name)) return;
+      await write();
+      recorded.push(name);
+      await this.save();
+    };
+
+    const { dayStartsAt, timeFormat } = this.settings;
+    const date = formatDate(getLogicalDate(start, dayStartsAt));
+
+    await step("time-spent", async () => {
+      active.total = await this.taskIndex.addTimeSpent(file.path, minutes);
+    });
+
+    const logLine = `- ${date} ${formatTime(start, "HH:mm")}–${formatTime(end, "HH:mm")} (${formatDuration(minutes)})`;
+    await step("time-log", async () => {
+      await this.app.vault.process(file, (content) => appendTimeLogLine(content, logLine));
+    });
+
+    // Both ends relative to the day the session started ("23:30–24:15")
+    await step("timeline", async () => {
+      const startTime = formatTime(start, timeFormat, dayStartsAt);
+      const endTime = formatTime(end, timeFormat, date === formatDate(getLogicalDate(end, dayStartsAt)) ? dayStartsAt : undefined);
+      const notePath = resolveDailyNotePath(this.app, this.settings, date);
+      const link = this.app.metadataCache.fileToLinktext(file, notePath);
+      await this.dailyNoteService.appendEntry(date, `${startTime}–${endTime}`, `[[${link}]]`);
+    });
+
+    const title = this.taskIndex.getTask(file.path)?.title ?? file.basename;
+    return { path: file.path, title, minutes, total: active.total ?? minutes };
+  }
+
+  /**
+   * Keep timing a task note that was renamed or moved
+   */
+  async onFileRename(file: TFile, oldPath: string): Promise<void> {
+    if (!this.active || this.active.path !== oldPath) return;
+    this.active = { ...this.active, path: file.path };
+    await this.save();
+    this.trigger("changed");
+  }
+
+  /**
+   * Drop the timer of a deleted task note
+   */
+  async onFileDelete(file: TFile): Promise<void> {
+    if (!this.isRunning(file.path)) return;
+    this.active = null;
+    await this.save();
+    this.trigger("changed");
+  }
+}
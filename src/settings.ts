@@ -4,6 +4,7 @@
 
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type TemporalDriftPlugin from "./main";
+import { DaySectionConfig, InlineTaskScope, TimeFormat } from "./types";
 
 export class TemporalDriftSettingTab extends PluginSettingTab {
   plugin: TemporalDriftPlugin;
@@ -33,6 +34,36 @@ export class TemporalDriftSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Daily note path")
+      .setDesc(
+        "File name pattern inside the daily notes folder. Supports YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd, ddd and [literal text]; use / for subfolders, e.g. YYYY/MM/YYYY-MM-DD ddd."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("YYYY-MM-DD")
+          .setValue(this.plugin.settings.dailyNotePathPattern)
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNotePathPattern = value.trim().replace(/\.md$/, "") || "YYYY-MM-DD";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Daily note template")
+      .setDesc(
+        "Template note for new daily notes. Supports {{date}}, {{weekday}}, {{time}}, {{yesterday}}, {{tomorrow}}, {{sections_before}}, {{timeline}} and {{sections_after}}. Leave empty for the built-in template."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates/Daily note")
+          .setValue(this.plugin.settings.dailyNoteTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNoteTemplate = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("Tasks folder")
       .setDesc("Folder where task notes are stored")
@@ -72,6 +103,54 @@ export class TemporalDriftSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Rollups folder")
+      .setDesc("Folder where weekly and monthly rollup notes are stored")
+      .addText((text) =>
+        text
+          .setPlaceholder("Reviews")
+          .setValue(this.plugin.settings.rollupFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.rollupFolder = value || "Reviews";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Create rollups automatically")
+      .setDesc("Create last week's and last month's rollup once the period is over")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.autoCreateRollups).onChange(async (value) => {
+          this.plugin.settings.autoCreateRollups = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive daily notes after (days)")
+      .setDesc("The \"Archive old daily notes\" command moves older notes into Archive/YYYY inside the daily notes folder")
+      .addText((text) =>
+        text
+          .setPlaceholder("90")
+          .setValue(String(this.plugin.settings.archiveAfterDays))
+          .onChange(async (value) => {
+            const days = parseInt(value.trim(), 10);
+            if (!(days > 0)) return;
+            this.plugin.settings.archiveAfterDays = days;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive automatically")
+      .setDesc("Archive old daily notes at startup and once a day")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.autoArchive).onChange(async (value) => {
+          this.plugin.settings.autoArchive = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
     // Display section
     new Setting(containerEl).setName("Display").setHeading();
 
@@ -90,25 +169,37 @@ export class TemporalDriftSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Show thankful section")
-      .setDesc("Display the 'Thankful for' section in daily notes")
-      .addToggle((toggle) =>
-        toggle.setValue(this.plugin.settings.showThankful).onChange(async (value) => {
-          this.plugin.settings.showThankful = value;
-          await this.plugin.saveSettings();
-        })
+      .setName("Time format")
+      .setDesc("Timestamp style inserted by commands and on Enter. Notes may mix styles; all are recognized.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("HH:mm", "24-hour (14:05)")
+          .addOption("HH:mm:ss", "24-hour with seconds (14:05:30)")
+          .addOption("h:mm a", "12-hour (2:05 pm)")
+          .setValue(this.plugin.settings.timeFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.timeFormat = value as TimeFormat;
+            await this.plugin.saveSettings();
+          })
       );
 
     new Setting(containerEl)
-      .setName("Show focus section")
-      .setDesc("Display the 'Focus' section in daily notes")
-      .addToggle((toggle) =>
-        toggle.setValue(this.plugin.settings.showFocus).onChange(async (value) => {
-          this.plugin.settings.showFocus = value;
-          await this.plugin.saveSettings();
-        })
+      .setName("Day starts at")
+      .setDesc("Entries before this time (HH:mm) belong to the previous day, e.g. 04:00 for night owls")
+      .addText((text) =>
+        text
+          .setPlaceholder("00:00")
+          .setValue(this.plugin.settings.dayStartsAt)
+          .onChange(async (value) => {
+            const trimmed = value.trim();
+            if (trimmed && !/^([01]\d|2[0-3]):[0-5]\d$/.test(trimmed)) return;
+            this.plugin.settings.dayStartsAt = trimmed || "00:00";
+            await this.plugin.saveSettings();
+          })
       );
 
+    this.displaySections(containerEl);
+
     // Tasks section
     new Setting(containerEl).setName("Tasks").setHeading();
 
@@ -126,5 +217,212 @@ export class TemporalDriftSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           })
       );
+
+    new Setting(containerEl)
+      .setName("Inline tasks")
+      .setDesc("Checkbox lines outside the tasks folder that show up as tasks. Toggling them edits the checkbox in place.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("off", "None")
+          .addOption("daily-notes", "In daily notes")
+          .addOption("all-notes", "In all notes")
+          .setValue(this.plugin.settings.inlineTasks)
+          .onChange(async (value) => {
+            this.plugin.settings.inlineTasks = value as InlineTaskScope;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Log completions")
+      .setDesc("When a task is completed, add \"HH:mm - [x] [[Task]]\" to today's timeline at the time in its \"completed\" property. Reopening it removes the entry again.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.logCompletions).onChange(async (value) => {
+          this.plugin.settings.logCompletions = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    this.displayTaskStatuses(containerEl);
+  }
+
+  /**
+   * Editable list of task statuses (name, frontmatter value, marker, closed)
+   */
+  private displayTaskStatuses(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Task statuses")
+      .setDesc(
+        "Name, frontmatter value and checkbox marker (\"/\" for - [/]). Closed statuses count as finished. The first open status is used for new tasks, the first closed one when a task is ticked off."
+      )
+      .setHeading();
+
+    const statuses = this.plugin.settings.taskStatuses;
+
+    statuses.forEach((status, idx) => {
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(status.name)
+            .onChange(async (value) => {
+              status.name = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Value")
+            .setValue(status.id)
+            .onChange(async (value) => {
+              status.id = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) => {
+          text.inputEl.maxLength = 1;
+          text.inputEl.size = 2;
+          text
+            .setPlaceholder("x")
+            .setValue(status.marker)
+            .onChange(async (value) => {
+              status.marker = value.slice(0, 1) || " ";
+              await this.plugin.saveSettings();
+            });
+        })
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Closed")
+            .setValue(status.closed)
+            .onChange(async (value) => {
+              status.closed = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(idx === 0)
+            .onClick(async () => {
+              if (idx === 0) return;
+              [statuses[idx - 1], statuses[idx]] = [statuses[idx], statuses[idx - 1]];
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Remove status")
+            .onClick(async () => {
+              statuses.splice(idx, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((btn) =>
+      btn.setButtonText("Add status").onClick(async () => {
+        statuses.push({ id: "", name: "", marker: " ", closed: false });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  /**
+   * Editable list of daily note sections (heading, prompt, position)
+   */
+  private displaySections(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Daily note sections")
+      .setDesc("Headings added to every new daily note. The prompt is shown while a section is empty.")
+      .setHeading();
+
+    const sections = this.plugin.settings.sections;
+
+    sections.forEach((section, idx) => {
+      new Setting(containerEl)
+        .addText((text) =>
+          text
+            .setPlaceholder("Heading")
+            .setValue(section.heading)
+            .onChange(async (value) => {
+              section.heading = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Prompt")
+            .setValue(section.prompt)
+            .onChange(async (value) => {
+              section.prompt = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("before", "Before timeline")
+            .addOption("after", "After timeline")
+            .setValue(section.position)
+            .onChange(async (value) => {
+              section.position = value as DaySectionConfig["position"];
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(idx === 0)
+            .onClick(async () => {
+              if (idx === 0) return;
+              [sections[idx - 1], sections[idx]] = [sections[idx], sections[idx - 1]];
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Remove section")
+            .onClick(async () => {
+              sections.splice(idx, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((btn) =>
+      btn.setButtonText("Add section").onClick(async () => {
+        sections.push({ heading: "", prompt: "", position: "before" });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+    new Setting(containerEl)
+      .setName("Carry over open tasks")
+      .setDesc("When today's note is created, copy open tasks from the previous daily note under \"Carried over\"")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.carryOverTasks).onChange(async (value) => {
+          this.plugin.settings.carryOverTasks = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Carry over focus")
+      .setDesc("Also copy unfinished items from the previous note's Focus section")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.carryOverFocus).onChange(async (value) => {
+          this.plugin.settings.carryOverFocus = value;
+          await this.plugin.saveSettings();
+        })
+      );
   }
 }
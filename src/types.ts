@@ -6,28 +6,89 @@
 // Settings
 // ============================================================================
 
+/**
+ * Timestamp style written by commands and auto-timestamp. Parsers accept
+ * every style regardless, so mixed-format notes keep working.
+ */
+export type TimeFormat = "HH:mm" | "HH:mm:ss" | "h:mm a";
+
+/**
+ * A "## Heading" block written into every daily note, above or below the timeline
+ */
+export interface DaySectionConfig {
+  heading: string;
+  prompt: string; // placeholder shown while the section is empty
+  position: "before" | "after";
+}
+
+/**
+ * A task status: the frontmatter value, its checkbox marker in timeline
+ * entries ("- [/]") and whether it counts as finished
+ */
+export interface TaskStatusConfig {
+  id: string; // frontmatter "status" value, e.g. "in-progress"
+  name: string;
+  marker: string; // single character between the brackets
+  closed: boolean;
+}
+
+export type InlineTaskScope = "off" | "daily-notes" | "all-notes";
+
 export interface TemporalDriftSettings {
   dailyNotesFolder: string;
+  dailyNotePathPattern: string; // moment-style, relative to dailyNotesFolder, without .md
+  dailyNoteTemplate: string; // path to a template note; empty = built-in
   tasksFolder: string;
   meetingsFolder: string;
   peopleFolder: string;
+  rollupFolder: string; // weekly ("2026-W42") and monthly ("2026-10") rollup notes
+  autoCreateRollups: boolean; // create last week's/month's rollup once it is over
+  archiveAfterDays: number; // daily notes older than this move to "<folder>/Archive/YYYY"
+  autoArchive: boolean;
   defaultPriority: "now" | "next" | "later";
+  taskStatuses: TaskStatusConfig[]; // cycle order; the first open one is the default
+  inlineTasks: InlineTaskScope; // which notes' checkbox lines are indexed as tasks
+  logCompletions: boolean; // log completed tasks on the day's timeline
   themeMode: "light" | "dark" | "system";
-  showThankful: boolean;
-  showFocus: boolean;
+  sections: DaySectionConfig[];
+  carryOverTasks: boolean; // copy open tasks from the previous note into a new day
+  carryOverFocus: boolean;
   calendarDays: number;
+  timeFormat: TimeFormat;
+  dayStartsAt: string; // HH:mm; earlier entries belong to the previous day
 }
 
 export const DEFAULT_SETTINGS: TemporalDriftSettings = {
   dailyNotesFolder: "Daily notes",
+  dailyNotePathPattern: "YYYY-MM-DD",
+  dailyNoteTemplate: "",
   tasksFolder: "Tasks",
   meetingsFolder: "Meetings",
   peopleFolder: "People",
+  rollupFolder: "Reviews",
+  autoCreateRollups: false,
+  archiveAfterDays: 90,
+  autoArchive: false,
   defaultPriority: "now",
+  taskStatuses: [
+    { id: "open", name: "Open", marker: " ", closed: false },
+    { id: "in-progress", name: "In progress", marker: "/", closed: false },
+    { id: "waiting", name: "Waiting", marker: "?", closed: false },
+    { id: "done", name: "Done", marker: "x", closed: true },
+    { id: "cancelled", name: "Cancelled", marker: "-", closed: true },
+  ],
+  inlineTasks: "off",
+  logCompletions: false,
   themeMode: "system",
-  showThankful: true,
-  showFocus: true,
+  sections: [
+    { heading: "Thankful for", prompt: "What are you grateful for today?", position: "before" },
+    { heading: "Focus", prompt: "What matters most today?", position: "before" },
+  ],
+  carryOverTasks: false,
+  carryOverFocus: false,
   calendarDays: 7,
+  timeFormat: "HH:mm",
+  dayStartsAt: "00:00",
 };
 
 // ============================================================================
@@ -43,17 +104,95 @@ export interface SettingsAware {
 // ============================================================================
 
 export type TimeEntry =
-  | { type: "task"; time: string; content: string; status: "open" | "done"; taskPath?: string }
-  | { type: "note"; time: string; content: string }
-  | { type: "event"; time: string; title: string; eventId: string; participants?: Participant[] };
+  | { type: "task"; time: string; content: string; status: string; closed: boolean; taskPath?: string; duration?: number }
+  | { type: "note"; time: string; content: string; duration?: number }
+  | { type: "event"; time: string; title: string; eventId: string; participants?: Participant[]; duration?: number };
+
+/**
+ * Wikilink reference as written in a timeline entry
+ */
+export interface LinkRef {
+  target: string;
+  display: string;
+}
+
+export type TimelineEntryType = "task" | "event" | "note";
+
+/**
+ * A timestamped block in a daily note: the "HH:mm ..." line plus its
+ * indented body. Line numbers are 0-based, offsets are character offsets
+ * into the parsed source.
+ */
+export interface TimelineEntry {
+  type: TimelineEntryType;
+  time: string; // normalized 24-hour HH:mm (HH:mm:ss when written with seconds)
+  rawTime: string; // timestamp as written ("9:05 am", "09:05:30", ...)
+  minutes: number; // minutes since midnight (>= 1440 for "24:40" / "00:40+1")
+  seconds: number; // seconds since midnight; the sort key
+  endTime?: string; // explicit range end ("09:00–10:30"), normalized
+  duration?: number; // minutes
+  durationSource?: "range" | "calendar" | "next";
+  head: string; // content on the time line
+  body: string[]; // indented lines below the head (without leading indentation)
+  lineStart: number;
+  lineEnd: number; // inclusive
+  from: number;
+  to: number;
+  timeFrom: number;
+  timeTo: number;
+  headFrom: number;
+  title: string;
+  locationText: string;
+  primaryLink: LinkRef | null;
+  participants: LinkRef[];
+  links: LinkRef[];
+  status?: string; // task status id, from the checkbox marker
+  marker?: string; // checkbox character as written (" ", "x", "/", ...)
+  eventId?: string;
+}
+
+/**
+ * Where a heading sits relative to the timeline; "other" for headings that
+ * are not configured sections
+ */
+export type DailyNoteSectionKind = "before" | "after" | "other";
+
+/**
+ * A "## Heading" block. Sections end at the next heading or the first
+ * timestamp line, whichever comes first.
+ */
+export interface DailyNoteSection {
+  kind: DailyNoteSectionKind;
+  heading: string;
+  lines: string[]; // non-empty content lines, trimmed
+  lineStart: number; // heading line
+  lineEnd: number; // inclusive
+  from: number;
+  to: number;
+}
+
+/**
+ * A configured section as found in one note. Every configured section is
+ * present; lineStart is undefined when the note has no such heading yet.
+ */
+export interface DaySection extends DaySectionConfig {
+  content: string;
+  lineStart?: number;
+}
+
+export interface DailyNoteDocument {
+  title?: string;
+  sections: DailyNoteSection[];
+  entries: TimelineEntry[];
+  daySections: DaySection[];
+}
 
 export interface ParsedDay {
   date: string;
   path: string;
   mtime: number;
   entries: TimeEntry[];
-  thankful?: string;
-  focus?: string;
+  sections: DaySection[];
 }
 
 // ============================================================================
@@ -63,12 +202,38 @@ export interface ParsedDay {
 export interface TaskMeta {
   path: string;
   title: string;
-  status: "open" | "done";
+  status: string; // a TaskStatusConfig id (unknown values are kept as written)
   priority: "now" | "next" | "later";
   due?: string;
   created?: string;
+  project?: string; // link target ("Apollo" for "[[Apollo]]")
+  tags: string[]; // without "#"
+  scheduled?: string;
+  estimate?: number; // minutes ("1h30m" in frontmatter -> 90)
+  timeSpent?: number; // "time_spent" in frontmatter; minutes tracked with the task timer
+  completed?: string;
+  waitingOn?: string; // "waiting_on" in frontmatter; link target
+  context?: string;
+  recurrence?: string; // e.g. "every 2 weeks", see utils/recurrence
+  blockedBy: string[]; // "blocked_by" in frontmatter; link targets of prerequisite tasks
+  source?: TaskSource; // inline tasks only; their path is "<note>#^<block id>" or "<note>#<text>"
 }
 
+/**
+ * Where an inline task (a checkbox line in a note) was found
+ */
+export interface TaskSource {
+  path: string; // the note
+  line: number; // 0-based, as of the last indexing
+  blockId?: string;
+  text: string; // text after the checkbox, used to find the line again
+}
+
+/**
+ * Frontmatter changes for a task; undefined removes the key
+ */
+export type TaskUpdate = Partial<Omit<TaskMeta, "path" | "title" | "source">>;
+
 // ============================================================================
 // Calendar Types
 // ============================================================================
@@ -0,0 +1,188 @@
+// ============================================================================
+// Daily Note Paths
+//
+// Builds and recognizes daily note paths from the configured pattern, e.g.
+// "YYYY/MM/YYYY-MM-DD ddd" -> "Journal/2026/10/2026-10-19 Mon.md".
+//
+// Supported tokens (moment-style): YYYY YY MMMM MMM MM M DD D dddd ddd,
+// and [literal text].
+//
+// Archived notes live in "<folder>/Archive/YYYY/<file name>.md" and are
+// recognized and resolved like any other daily note.
+// ============================================================================
+
+import { App, normalizePath } from "obsidian";
+import { TemporalDriftSettings } from "../types";
+import { formatDate, getDayName, getMonthName, parseDate } from "./time";
+
+export const ARCHIVE_FOLDER = "Archive";
+
+const TOKEN_RE = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D/g;
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  YY: "(\\d{2})",
+  MM: "(\\d{2})",
+  DD: "(\\d{2})",
+  M: "(\\d{1,2})",
+  D: "(\\d{1,2})",
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function formatToken(token: string, date: Date): string {
+  switch (token) {
+    case "YYYY":
+      return date.getFullYear().toString();
+    case "YY":
+      return date.getFullYear().toString().slice(-2);
+    case "MMMM":
+      return getMonthName(date, false);
+    case "MMM":
+      return getMonthName(date);
+    case "MM":
+      return (date.getMonth() + 1).toString().padStart(2, "0");
+    case "M":
+      return (date.getMonth() + 1).toString();
+    case "dddd":
+      return getDayName(date, false);
+    case "ddd":
+      return getDayName(date);
+    case "DD":
+      return date.getDate().toString().padStart(2, "0");
+    case "D":
+      return date.getDate().toString();
+    default:
+      return token;
+  }
+}
+
+/**
+ * Format a date with a moment-style pattern
+ */
+export function formatDatePattern(date: Date, pattern: string): string {
+  return pattern.replace(TOKEN_RE, (token, literal: string | undefined) =>
+    literal !== undefined ? literal : formatToken(token, date)
+  );
+}
+
+/**
+ * Parse text written with a moment-style pattern. Returns null unless the text
+ * is exactly what the pattern would produce for the parsed date.
+ */
+export function parseDatePattern(text: string, pattern: string): Date | null {
+  const groups: string[] = [];
+  let source = "";
+  let last = 0;
+
+  pattern.replace(TOKEN_RE, (token, literal: string | undefined, offset: number) => {
+    source += escapeRegExp(pattern.slice(last, offset));
+    last = offset + token.length;
+    if (literal !== undefined) {
+      source += escapeRegExp(literal);
+    } else {
+      groups.push(token);
+      source += TOKEN_PATTERNS[token] ?? "([A-Za-z]+)"; // names are checked on re-format
+    }
+    return token;
+  });
+  source += escapeRegExp(pattern.slice(last));
+
+  const m = text.match(new RegExp(`^${source}$`));
+  if (!m) return null;
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day: number | null = null;
+  groups.forEach((token, idx) => {
+    const value = m[idx + 1];
+    if (token === "YYYY") year = Number(value);
+    else if (token === "YY" && year === null) year = 2000 + Number(value);
+    else if (token === "MM" || token === "M") month = Number(value);
+    else if (token === "DD" || token === "D") day = Number(value);
+  });
+  if (year === null || month === null || day === null) return null;
+
+  const date = new Date(year, month - 1, day);
+  return formatDatePattern(date, pattern) === text ? date : null;
+}
+
+// Last segment of the path pattern ("YYYY/MM/YYYY-MM-DD" -> "YYYY-MM-DD")
+function fileNamePattern(settings: TemporalDriftSettings): string {
+  const pattern = settings.dailyNotePathPattern || "YYYY-MM-DD";
+  return pattern.slice(pattern.lastIndexOf("/") + 1);
+}
+
+/**
+ * Vault path of the daily note for a date (YYYY-MM-DD)
+ */
+export function getDailyNotePath(settings: TemporalDriftSettings, date: string): string {
+  const name = formatDatePattern(parseDate(date), settings.dailyNotePathPattern || "YYYY-MM-DD");
+  return normalizePath(`${settings.dailyNotesFolder}/${name}.md`);
+}
+
+/**
+ * Vault path of a daily note once archived: "<folder>/Archive/YYYY/<file name>.md".
+ * Subfolders in the path pattern are dropped; the year folder replaces them.
+ */
+export function getArchivedDailyNotePath(settings: TemporalDriftSettings, date: string): string {
+  const name = formatDatePattern(parseDate(date), fileNamePattern(settings));
+  return normalizePath(`${settings.dailyNotesFolder}/${ARCHIVE_FOLDER}/${date.slice(0, 4)}/${name}.md`);
+}
+
+/**
+ * Path of the existing daily note for a date, archived or not. Falls back to
+ * the regular path (where a new note would be created).
+ */
+export function resolveDailyNotePath(app: App, settings: TemporalDriftSettings, date: string): string {
+  const path = getDailyNotePath(settings, date);
+  if (app.vault.getAbstractFileByPath(path)) return path;
+
+  const archived = getArchivedDailyNotePath(settings, date);
+  return app.vault.getAbstractFileByPath(archived) ? archived : path;
+}
+
+/**
+ * Date (YYYY-MM-DD) of a daily note path, or null if the path is not a daily note
+ */
+export function getDailyNoteDate(settings: TemporalDriftSettings, path: string): string | null {
+  const normalized = normalizePath(path);
+  const prefix = normalizePath(settings.dailyNotesFolder + "/");
+  if (!normalized.startsWith(prefix) || !normalized.endsWith(".md")) return null;
+
+  const relative = normalized.slice(prefix.length, -".md".length);
+  const archivePrefix = `${ARCHIVE_FOLDER}/`;
+  if (relative.startsWith(archivePrefix)) {
+    // The year folder counts as part of the name, so file names without a year parse too
+    const date = parseDatePattern(relative.slice(archivePrefix.length), `YYYY/${fileNamePattern(settings)}`);
+    return date ? formatDate(date) : null;
+  }
+
+  const date = parseDatePattern(relative, settings.dailyNotePathPattern || "YYYY-MM-DD");
+  return date ? formatDate(date) : null;
+}
+
+export function isArchivedDailyNotePath(settings: TemporalDriftSettings, path: string): boolean {
+  const prefix = normalizePath(`${settings.dailyNotesFolder}/${ARCHIVE_FOLDER}/`);
+  return normalizePath(path).startsWith(prefix) && isDailyNotePath(settings, path);
+}
+
+export function isDailyNotePath(settings: TemporalDriftSettings, path: string): boolean {
+  return getDailyNoteDate(settings, path) !== null;
+}
+
+/**
+ * Create every missing folder above a file path
+ */
+export async function ensureParentFolders(app: App, filePath: string): Promise<void> {
+  const parts = normalizePath(filePath).split("/").slice(0, -1);
+  let current = "";
+  for (const part of parts) {
+    current = current ? `${current}/${part}` : part;
+    if (!app.vault.getAbstractFileByPath(current)) {
+      await app.vault.createFolder(current);
+    }
+  }
+}
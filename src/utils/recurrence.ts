@@ -0,0 +1,140 @@
+// ============================================================================
+// Recurrence Rules
+//
+// Parses the "recurrence" frontmatter of recurring tasks and computes the
+// next due date. Supported rules:
+//
+//   daily, weekly, monthly, yearly
+//   every day / every 3 days / every other week / every 2 months / every year
+//   every week on monday, thursday      every monday
+//   every month on the 1st              every month on the last day
+//   3 days after completion             2 weeks after completion
+// ============================================================================
+
+import { addDays, formatDate, getWeekStart, parseDate } from "./time";
+
+export type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+export interface RecurrenceRule {
+  interval: number;
+  unit: RecurrenceUnit;
+  weekdays?: number[]; // 0 = Sunday
+  dayOfMonth?: number | "last";
+  afterCompletion: boolean; // count from the completion date instead of the due date
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const ALIASES: Record<string, string> = {
+  daily: "every day",
+  weekly: "every week",
+  monthly: "every month",
+  yearly: "every year",
+  annually: "every year",
+};
+
+// "mon", "Monday", "thu" -> 0-6
+function parseWeekday(text: string): number | null {
+  const word = text.trim();
+  if (word.length < 2) return null;
+  const index = WEEKDAYS.findIndex((day) => day.startsWith(word));
+  return index >= 0 ? index : null;
+}
+
+function parseWeekdays(text: string): number[] | null {
+  const days = text.split(/\s*(?:,|\band\b)\s*/).filter(Boolean).map(parseWeekday);
+  if (days.length === 0 || days.some((d) => d === null)) return null;
+  return [...new Set(days as number[])].sort();
+}
+
+// "the 1st", "15th", "the last day"
+function parseDayOfMonth(text: string): number | "last" | null {
+  const cleaned = text.replace(/^the\s+/, "").trim();
+  if (/^last(\s+day)?$/.test(cleaned)) return "last";
+  const m = cleaned.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  const day = m ? Number(m[1]) : 0;
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+/**
+ * Parse a recurrence rule, or null if the text isn't one
+ */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+  let rule = text.trim().toLowerCase().replace(/\s+/g, " ");
+  rule = ALIASES[rule] ?? rule;
+
+  const after = rule.match(/^(\d+|an?|one) (day|week|month|year)s? after (?:completion|done|completed)$/);
+  if (after) {
+    const interval = /^\d+$/.test(after[1]) ? Number(after[1]) : 1;
+    return interval > 0 ? { interval, unit: after[2] as RecurrenceUnit, afterCompletion: true } : null;
+  }
+
+  // "every monday, thursday"
+  const everyWeekday = rule.match(/^every (.+)$/);
+  const weekdays = everyWeekday ? parseWeekdays(everyWeekday[1]) : null;
+  if (weekdays) return { interval: 1, unit: "week", weekdays, afterCompletion: false };
+
+  const every = rule.match(/^every (?:(\d+|other) )?(day|week|month|year)s?(?: on (.+))?$/);
+  if (!every) return null;
+
+  const interval = every[1] === "other" ? 2 : every[1] ? Number(every[1]) : 1;
+  const unit = every[2] as RecurrenceUnit;
+  if (interval < 1) return null;
+
+  const parsed: RecurrenceRule = { interval, unit, afterCompletion: false };
+  if (every[3]) {
+    if (unit === "week") {
+      const days = parseWeekdays(every[3]);
+      if (!days) return null;
+      parsed.weekdays = days;
+    } else if (unit === "month") {
+      const day = parseDayOfMonth(every[3]);
+      if (day === null) return null;
+      parsed.dayOfMonth = day;
+    } else {
+      return null;
+    }
+  }
+  return parsed;
+}
+
+// Day of a month, clamped to its length ("31st" in February -> 28/29)
+function dayInMonth(year: number, month: number, day: number | "last"): Date {
+  const last = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, day === "last" ? last : Math.min(day, last));
+}
+
+/**
+ * Next due date (YYYY-MM-DD) after a task is completed. Counts from the due
+ * date when there is one (so a late completion doesn't shift the schedule),
+ * otherwise - and for "after completion" rules - from the completion date.
+ */
+export function getNextDueDate(rule: RecurrenceRule, due: string | undefined, completed: string): string {
+  const base = parseDate(rule.afterCompletion || !due ? completed : due);
+
+  switch (rule.unit) {
+    case "day":
+      return formatDate(addDays(base, rule.interval));
+
+    case "week": {
+      if (!rule.weekdays || rule.weekdays.length === 0) return formatDate(addDays(base, 7 * rule.interval));
+      // The next listed weekday, in a week that is a multiple of the interval away
+      const baseWeek = getWeekStart(base).getTime();
+      for (let d = addDays(base, 1); ; d = addDays(d, 1)) {
+        const weeks = Math.round((getWeekStart(d).getTime() - baseWeek) / (7 * 24 * 60 * 60 * 1000));
+        if (weeks % rule.interval === 0 && rule.weekdays.includes(d.getDay())) return formatDate(d);
+      }
+    }
+
+    case "month": {
+      const day = rule.dayOfMonth ?? base.getDate();
+      for (let k = 0; ; k += rule.interval) {
+        const candidate = dayInMonth(base.getFullYear(), base.getMonth() + k, day);
+        if (candidate > base) return formatDate(candidate);
+      }
+    }
+
+    case "year":
+      return formatDate(dayInMonth(base.getFullYear() + rule.interval, base.getMonth(), base.getDate()));
+  }
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// Task Statuses
+//
+// Lookups over the configured status set (settings.taskStatuses). Statuses
+// are identified by their frontmatter value; in timeline entries they are
+// written as a checkbox marker: "- [ ]", "- [/]", "- [x]", "- [-]".
+// ============================================================================
+
+import { TaskStatusConfig } from "../types";
+
+export function getTaskStatus(statuses: TaskStatusConfig[], id: string): TaskStatusConfig | undefined {
+  return statuses.find((s) => s.id === id);
+}
+
+/**
+ * Status for a checkbox marker ("x" and "X" are the same); unknown markers
+ * count as the default open status
+ */
+export function getStatusForMarker(statuses: TaskStatusConfig[], marker: string): TaskStatusConfig {
+  const normalized = marker.trim().toLowerCase() || " ";
+  return (
+    statuses.find((s) => (s.marker.trim().toLowerCase() || " ") === normalized) ?? getDefaultStatus(statuses)
+  );
+}
+
+/**
+ * The status new and reopened tasks get: the first open one
+ */
+export function getDefaultStatus(statuses: TaskStatusConfig[]): TaskStatusConfig {
+  return statuses.find((s) => !s.closed) ?? { id: "open", name: "Open", marker: " ", closed: false };
+}
+
+/**
+ * The status a checkbox tick sets: the first closed one
+ */
+export function getDoneStatus(statuses: TaskStatusConfig[]): TaskStatusConfig {
+  return statuses.find((s) => s.closed) ?? { id: "done", name: "Done", marker: "x", closed: true };
+}
+
+/**
+ * Unknown statuses are treated as open so nothing silently disappears
+ */
+export function isClosedStatus(statuses: TaskStatusConfig[], id: string): boolean {
+  return getTaskStatus(statuses, id)?.closed ?? false;
+}
+
+/**
+ * Next status in the configured order, wrapping around
+ */
+export function getNextStatus(statuses: TaskStatusConfig[], id: string): TaskStatusConfig {
+  const index = statuses.findIndex((s) => s.id === id);
+  return statuses[(index + 1) % statuses.length] ?? getDefaultStatus(statuses);
+}
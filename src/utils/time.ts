@@ -2,13 +2,88 @@
 // Time Utilities
 // ============================================================================
 
+import { TimeFormat } from "../types";
+
+function formatClock(hours: number, minutes: number, seconds: number, format: TimeFormat): string {
+  const mm = minutes.toString().padStart(2, "0");
+
+  if (format === "h:mm a") {
+    // Past midnight of the previous day: "12:40 am+1"
+    const h12 = hours % 12 === 0 ? 12 : hours % 12;
+    return `${h12}:${mm} ${hours % 24 < 12 ? "am" : "pm"}${hours >= 24 ? "+1" : ""}`;
+  }
+
+  const hh = hours.toString().padStart(2, "0");
+  if (format === "HH:mm:ss") {
+    return `${hh}:${mm}:${seconds.toString().padStart(2, "0")}`;
+  }
+  return `${hh}:${mm}`;
+}
+
+/**
+ * Minutes since midnight for a "HH:mm" setting value (0 if malformed)
+ */
+function clockMinutes(hhmm: string): number {
+  const m = hhmm.match(/^(\d{1,2}):(\d{2})$/);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : 0;
+}
+
+/**
+ * Whether a moment falls before the configured day start, i.e. still belongs
+ * to the previous (logical) day
+ */
+export function isBeforeDayStart(date: Date, dayStartsAt: string): boolean {
+  return date.getHours() * 60 + date.getMinutes() < clockMinutes(dayStartsAt);
+}
+
+/**
+ * The date a moment belongs to when days start at `dayStartsAt` (e.g. "04:00")
+ */
+export function getLogicalDate(date: Date, dayStartsAt: string): Date {
+  return isBeforeDayStart(date, dayStartsAt) ? addDays(date, -1) : date;
+}
+
+/**
+ * Format a date as a timestamp (HH:mm by default).
+ * With `dayStartsAt`, moments after midnight that still belong to the previous
+ * day are written as "24:40" (or "12:40 am+1") so they sort after 23:59.
+ */
+export function formatTime(date: Date, format: TimeFormat = "HH:mm", dayStartsAt?: string): string {
+  const carry = dayStartsAt && isBeforeDayStart(date, dayStartsAt) ? 24 : 0;
+  return formatClock(date.getHours() + carry, date.getMinutes(), date.getSeconds(), format);
+}
+
+/**
+ * Re-format a normalized "HH:mm" / "HH:mm:ss" string for display
+ */
+export function formatTimeString(time: string, format: TimeFormat): string {
+  const [h, m, sec] = time.split(":").map(Number);
+  if (!Number.isFinite(h) || !Number.isFinite(m)) return time;
+  return formatClock(h, m, sec || 0, format);
+}
+
+/**
+ * Format a duration in minutes (e.g., "30m", "1h", "1h 30m")
+ */
+export function formatDuration(minutes: number): string {
+  if (!Number.isFinite(minutes) || minutes <= 0) return "";
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
 /**
- * Format a date as HH:mm
+ * Parse a duration in minutes: "90", "90m", "1h30m", "1.5h", "2 hours"
  */
-export function formatTime(date: Date): string {
-  const hours = date.getHours().toString().padStart(2, "0");
-  const minutes = date.getMinutes().toString().padStart(2, "0");
-  return `${hours}:${minutes}`;
+export function parseDuration(text: string): number | undefined {
+  const lower = text.trim().toLowerCase();
+  if (/^\d+$/.test(lower)) return Number(lower) || undefined;
+
+  const m = lower.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?|s)?)?)?$/);
+  if (!m || (m[1] === undefined && m[2] === undefined)) return undefined;
+  const minutes = Math.round(Number(m[1] ?? 0) * 60 + Number(m[2] ?? 0));
+  return minutes > 0 ? minutes : undefined;
 }
 
 /**
@@ -29,6 +104,24 @@ export function parseDate(dateStr: string): Date {
   return new Date(year, month - 1, day);
 }
 
+/**
+ * Format a moment as a local "YYYY-MM-DDTHH:mm" timestamp (e.g. "completed")
+ */
+export function formatTimestamp(date: Date): string {
+  return `${formatDate(date)}T${formatTime(date)}`;
+}
+
+/**
+ * Parse a "YYYY-MM-DDTHH:mm" timestamp, or a bare "YYYY-MM-DD" as written by
+ * earlier versions (hasTime false)
+ */
+export function parseTimestamp(value: string): { date: Date; hasTime: boolean } | null {
+  const m = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+  if (!m) return null;
+  const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4] ?? 0), Number(m[5] ?? 0));
+  return { date, hasTime: m[4] !== undefined };
+}
+
 /**
  * Add days to a date
  */
@@ -38,6 +131,25 @@ export function addDays(date: Date, days: number): Date {
   return result;
 }
 
+/**
+ * Monday of the week containing a date
+ */
+export function getWeekStart(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7; // days since Monday
+  return addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -offset);
+}
+
+/**
+ * ISO 8601 week number and week-based year (weeks start on Monday; week 1
+ * contains the year's first Thursday)
+ */
+export function getISOWeek(date: Date): { year: number; week: number } {
+  const thursday = addDays(getWeekStart(date), 3);
+  const firstThursday = addDays(getWeekStart(new Date(thursday.getFullYear(), 0, 4)), 3);
+  const week = Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  return { year: thursday.getFullYear(), week };
+}
+
 /**
  * Check if two dates are the same day
  */
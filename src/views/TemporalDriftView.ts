@@ -5,32 +5,16 @@
 // while keeping markdown as the source of truth.
 // ============================================================================
 
-import { ItemView, TFile, WorkspaceLeaf, MarkdownView, normalizePath } from "obsidian";
+import { ItemView, TFile, WorkspaceLeaf, MarkdownView } from "obsidian";
 import type TemporalDriftPlugin from "../main";
-import { formatDate } from "../utils/time";
+import { formatDate, formatDuration, formatTimeString, getLogicalDate, isBeforeDayStart, parseDate } from "../utils/time";
+import { DaySection, TimelineEntry } from "../types";
+import { applyCalendarDurations, parseDailyNote } from "../parser/daily-note-parser";
+import { setSectionContent } from "../parser/timeline-edits";
+import { getDailyNoteDate, getDailyNotePath, isDailyNotePath } from "../utils/daily-note-path";
 
 export const VIEW_TYPE_TEMPORAL_DRIFT = "temporal-drift-view";
 
-type EntryType = "event" | "task" | "note";
-
-interface TimelineEntry {
-  type: EntryType;
-  time: string; // HH:mm
-  head: string; // content on the time line
-  body: string[]; // following indented lines (without leading indentation)
-  lineNo: number; // 0-based index in file
-}
-
-function isDailyNotePath(path: string, dailyNotesFolder: string): boolean {
-  const prefix = normalizePath(dailyNotesFolder + "/");
-  return normalizePath(path).startsWith(prefix);
-}
-
-function looksLikeDailyNoteFilename(path: string): boolean {
-  // .../YYYY-MM-DD.md
-  return /\d{4}-\d{2}-\d{2}\.md$/i.test(path);
-}
-
 function getInitials(name: string): string {
   const cleaned = name.replace(/\[\[|\]\]/g, "").trim();
   const parts = cleaned.split(/\s+/).filter(Boolean);
@@ -39,140 +23,6 @@ function getInitials(name: string): string {
   return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
 }
 
-function parseWikilinkDisplay(raw: string): { target: string; display: string } {
-  // raw: "path/to/File|Display" or "path/to/File".
-  // If display is missing, use the last path segment.
-  const match = raw.match(/^([^|]+)(?:\|(.+))?$/);
-  const target = (match?.[1] ?? raw).trim();
-  const display = (match?.[2] ?? target.split("/").pop() ?? target).trim();
-  return { target, display };
-}
-
-function stripWikilinks(text: string): string {
-  return text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_m, p1: string, p2: string | undefined) => {
-    const display = (p2 ?? p1.split("/").pop() ?? p1).trim();
-    return display;
-  });
-}
-
-function stripEventIdSuffix(title: string): string {
-  // Remove " ~eventId" suffix from displayed event titles (keep link target intact)
-  // Example: "Standup ~test001" -> "Standup"
-  return title.replace(/\s*~[a-zA-Z0-9]+$/, "").trim();
-}
-
-function extractParticipants(head: string): Array<{ target: string; display: string }> {
-  // Example: "[[Standup ~id]] with [[Anna Meyer]], [[Tom Schmidt]]"
-  const withIdx = head.indexOf(" with ");
-  if (withIdx < 0) return [];
-
-  const tail = head.slice(withIdx + " with ".length);
-  const matches = Array.from(tail.matchAll(/\[\[([^\]]+)\]\]/g));
-  return matches.map((m) => parseWikilinkDisplay(m[1]));
-}
-
-function extractPrimaryLink(head: string): { target: string; display: string } | null {
-  const m = head.match(/\[\[([^\]]+)\]\]/);
-  if (!m) return null;
-  return parseWikilinkDisplay(m[1]);
-}
-
-function parseDailyNote(content: string): { thankful?: string; focus?: string; entries: TimelineEntry[] } {
-  const lines = content.split("\n");
-  const entries: TimelineEntry[] = [];
-
-  let inThankful = false;
-  let inFocus = false;
-  const thankfulLines: string[] = [];
-  const focusLines: string[] = [];
-
-  // Timeline entries must be "HH:mm <space>..." (matches your daily note format)
-  const isTimeLine = (line: string) => /^\d{2}:\d{2}\s/.test(line);
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    if (line.match(/^##\s*(Thankful|Grateful)/i)) {
-      inThankful = true;
-      inFocus = false;
-      continue;
-    }
-    if (line.match(/^##\s*Focus/i)) {
-      inThankful = false;
-      inFocus = true;
-      continue;
-    }
-    if (line.match(/^##/)) {
-      inThankful = false;
-      inFocus = false;
-      continue;
-    }
-
-    // Focus/Thankful sections end implicitly once timeline entries start
-    if (isTimeLine(line)) {
-      inThankful = false;
-      inFocus = false;
-    }
-
-    if (inThankful) {
-      if (line.trim()) thankfulLines.push(line.trim());
-      continue;
-    }
-    if (inFocus) {
-      if (line.trim()) focusLines.push(line.trim());
-      continue;
-    }
-
-    const timeMatch = line.match(/^(\d{2}):(\d{2})\s+(.*)$/);
-    if (!timeMatch) continue;
-
-    const time = `${timeMatch[1]}:${timeMatch[2]}`;
-    const head = (timeMatch[3] ?? "").trim();
-
-    const body: string[] = [];
-    let j = i + 1;
-    while (j < lines.length) {
-      const next = lines[j];
-      if (isTimeLine(next)) break;
-      // Stop at next top-level heading to avoid eating sections below.
-      if (next.match(/^##/)) break;
-
-      // Only indented lines belong to this entry (blank lines allowed)
-      if (next.trim() === "") {
-        body.push("");
-        j++;
-        continue;
-      }
-      if (!/^\s+/.test(next)) {
-        break;
-      }
-
-      body.push(next.replace(/^\s+/, ""));
-      j++;
-    }
-
-    // Determine entry type from head
-    let type: EntryType = "note";
-    if (head.match(/^\[\[[^\]]+\]\]/)) type = "event";
-    if (head.match(/^-\s*\[\s*([xX ]?)\s*\]/)) type = "task";
-
-    entries.push({ type, time, head, body, lineNo: i });
-    i = j - 1;
-  }
-
-  return {
-    thankful: thankfulLines.length ? thankfulLines.join("\n") : undefined,
-    focus: focusLines.length ? focusLines.join("\n") : undefined,
-    entries,
-  };
-}
-
-function minutesSinceMidnight(hhmm: string): number {
-  const m = hhmm.match(/^(\d{2}):(\d{2})$/);
-  if (!m) return Number.NaN;
-  return Number(m[1]) * 60 + Number(m[2]);
-}
-
 export class TemporalDriftView extends ItemView {
   private plugin: TemporalDriftPlugin;
   private activeFile: TFile | null = null;
@@ -236,13 +86,13 @@ export class TemporalDriftView extends ItemView {
       // 2) Fallback: any currently open markdown file.
       const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
       const f = activeView?.file ?? this.app.workspace.getActiveFile();
-      if (f && isDailyNotePath(f.path, this.plugin.settings.dailyNotesFolder) && looksLikeDailyNoteFilename(f.path)) {
+      if (f && isDailyNotePath(this.plugin.settings, f.path)) {
         return f;
       }
 
       // 3) Last resort: today's daily note if it exists
-      const today = formatDate(new Date());
-      const path = normalizePath(`${this.plugin.settings.dailyNotesFolder}/${today}.md`);
+      const today = formatDate(getLogicalDate(new Date(), this.plugin.settings.dayStartsAt));
+      const path = getDailyNotePath(this.plugin.settings, today);
       const maybe = this.app.vault.getAbstractFileByPath(path);
       return maybe instanceof TFile ? maybe : null;
     };
@@ -250,7 +100,10 @@ export class TemporalDriftView extends ItemView {
     const render = async () => {
       this.activeFile = resolveFile();
 
-      const dateStr = this.activeFile ? this.activeFile.basename : formatDate(new Date());
+      const noteDate = this.activeFile ? getDailyNoteDate(this.plugin.settings, this.activeFile.path) : null;
+      const dateStr = this.activeFile
+        ? noteDate ?? this.activeFile.basename
+        : formatDate(getLogicalDate(new Date(), this.plugin.settings.dayStartsAt));
       dateEl.setText(dateStr);
 
       timeline.empty();
@@ -262,14 +115,21 @@ export class TemporalDriftView extends ItemView {
       }
 
       const content = await this.app.vault.read(this.activeFile);
-      const parsed = parseDailyNote(content);
+      const parsed = parseDailyNote(content, this.plugin.settings.sections, this.plugin.settings.taskStatuses);
+      if (noteDate) {
+        void this.plugin.dailyNoteService.offerMigration(this.activeFile);
+        const events = await this.plugin.calendarService.getEventsForDate(parseDate(noteDate));
+        applyCalendarDurations(parsed.entries, events);
+      }
       this.entries = parsed.entries;
       this.activeIndex = 0;
 
       // Find the "current" entry (closest time <= now, else next future)
+      // After midnight but before the day start, "now" sorts after 23:59 (like "24:40")
       const now = new Date();
-      const nowMins = now.getHours() * 60 + now.getMinutes();
-      const entryMins = this.entries.map((e) => minutesSinceMidnight(e.time));
+      const carry = isBeforeDayStart(now, this.plugin.settings.dayStartsAt) ? 24 * 60 : 0;
+      const nowMins = now.getHours() * 60 + now.getMinutes() + carry;
+      const entryMins = this.entries.map((e) => e.minutes);
 
       let bestPastIdx: number | null = null;
       let bestPastDiff = Number.POSITIVE_INFINITY;
@@ -296,16 +156,25 @@ export class TemporalDriftView extends ItemView {
 
       const currentIdx = bestPastIdx ?? bestFutureIdx;
 
+      // Configured sections frame the timeline rows
+      const beforeEl = timeline.createDiv({ cls: "day-sections" });
+      const rows = timeline.createDiv({ cls: "timeline-rows" });
+      const afterEl = timeline.createDiv({ cls: "day-sections" });
+      for (const section of parsed.daySections) {
+        if (!section.heading.trim()) continue;
+        this.renderSection(section.position === "before" ? beforeEl : afterEl, section);
+      }
+
       if (this.entries.length === 0) {
-        const row = timeline.createDiv({ cls: "hour" });
-        row.createDiv({ cls: "hour-time", text: formatDate(new Date()) });
+        const row = rows.createDiv({ cls: "hour" });
+        row.createDiv({ cls: "hour-time", text: formatDate(getLogicalDate(new Date(), this.plugin.settings.dayStartsAt)) });
         row.createDiv({ cls: "hour-slot" }).createDiv({ cls: "empty", text: "+ add" });
         return;
       }
 
       this.entries.forEach((entry, idx) => {
-        const row = timeline.createDiv({ cls: `hour${idx === currentIdx ? " now" : ""}` });
-        row.createDiv({ cls: "hour-time", text: entry.time });
+        const row = rows.createDiv({ cls: `hour${idx === currentIdx ? " now" : ""}` });
+        row.createDiv({ cls: "hour-time", text: formatTimeString(entry.time, this.plugin.settings.timeFormat) });
         const slot = row.createDiv({ cls: "hour-slot" });
 
         const card = slot.createDiv({ cls: `event${idx === 0 ? " active" : ""}` });
@@ -317,7 +186,7 @@ export class TemporalDriftView extends ItemView {
           ev.preventDefault();
           this.setActiveIndex(idx);
 
-          const link = extractPrimaryLink(entry.head);
+          const link = entry.primaryLink;
           if (link) {
             await this.app.workspace.getLeaf(false).openLinkText(link.target, this.activeFile?.path ?? "");
           } else {
@@ -332,44 +201,19 @@ export class TemporalDriftView extends ItemView {
         const left = top.createDiv();
 
         // Title + location (prototype-style)
-        const titleText = (() => {
-          const link = extractPrimaryLink(entry.head);
-          if (link) {
-            const display = link.display;
-            // If this is an event-like title containing a "~eventId" suffix, hide it in UI.
-            return stripEventIdSuffix(display);
-          }
+        left.createDiv({ cls: "event-title", text: entry.title });
 
-          if (entry.type === "task") {
-            const m = entry.head.match(/\[\[([^\]]+)\]\]/);
-            if (m) return parseWikilinkDisplay(m[1]).display;
-          }
-
-          return stripWikilinks(entry.head || "(empty)");
-        })();
-
-        left.createDiv({ cls: "event-title", text: titleText });
-
-        // Location line: show the head *minus* the primary link, with wikilinks cleaned.
-        // This avoids rendering raw [[...]] strings.
-        const locationText = (() => {
-          if (!entry.head) return "";
-          const withoutPrimary = entry.head.replace(/^\s*\[\[[^\]]+\]\]\s*/, "").trim();
-          return stripWikilinks(withoutPrimary);
-        })();
-
-        if (locationText) {
-          left.createDiv({ cls: "event-location", text: locationText });
+        if (entry.locationText) {
+          left.createDiv({ cls: "event-location", text: entry.locationText });
         }
 
         const right = top.createDiv({ cls: "event-right" });
-        right.createSpan({ cls: "event-duration", text: "" });
+        right.createSpan({ cls: "event-duration", text: formatDuration(entry.duration ?? 0) });
 
         // Participants chips (if we can parse them)
-        const participants = extractParticipants(entry.head);
-        if (participants.length > 0) {
+        if (entry.participants.length > 0) {
           const pWrap = card.createDiv({ cls: "event-participants" });
-          for (const p of participants) {
+          for (const p of entry.participants) {
             const a = pWrap.createEl("a", { cls: "participant", attr: { href: "#" } });
             a.createSpan({ cls: "participant-avatar", text: getInitials(p.display) });
             a.appendText(p.display);
@@ -406,8 +250,7 @@ export class TemporalDriftView extends ItemView {
     this.registerEvent(
       this.app.workspace.on("file-open", async (file) => {
         if (!file) return;
-        if (!isDailyNotePath(file.path, this.plugin.settings.dailyNotesFolder)) return;
-        if (!looksLikeDailyNoteFilename(file.path)) return;
+        if (!isDailyNotePath(this.plugin.settings, file.path)) return;
 
         this.plugin.lastActiveDailyNotePath = file.path;
         await render();
@@ -445,21 +288,38 @@ export class TemporalDriftView extends ItemView {
     });
   }
 
+  /**
+   * Editable header/footer block for a configured section
+   */
+  private renderSection(container: HTMLElement, section: DaySection): void {
+    const block = container.createDiv({ cls: "day-section" });
+    block.createDiv({ cls: "label", text: section.heading });
+
+    const textarea = block.createEl("textarea", {
+      cls: "notes-field",
+      attr: { rows: "2", placeholder: section.prompt || "..." },
+    });
+    textarea.value = section.content;
+
+    textarea.addEventListener("blur", async () => {
+      if (!this.activeFile || textarea.value.trim() === section.content) return;
+      const heading = section.heading;
+      await this.app.vault.process(this.activeFile, (content) =>
+        setSectionContent(content, heading, textarea.value, this.plugin.settings.sections)
+      );
+    });
+  }
+
   private async saveEntryBody(entry: TimelineEntry, newBodyText: string): Promise<void> {
     if (!this.activeFile) return;
 
     const content = await this.app.vault.read(this.activeFile);
     const lines = content.split("\n");
 
-    // Find the next time line after this entry
-    const isTimeLine = (line: string) => /^\d{2}:\d{2}\s/.test(line);
-
-    let end = entry.lineNo + 1;
-    while (end < lines.length) {
-      if (isTimeLine(lines[end])) break;
-      if (lines[end].match(/^##/)) break;
-      end++;
-    }
+    // Re-parse so we replace the body as it is on disk now, not as it was rendered
+    const { sections, taskStatuses } = this.plugin.settings;
+    const current = parseDailyNote(content, sections, taskStatuses).entries.find((e) => e.lineStart === entry.lineStart);
+    if (!current) return;
 
     const normalized = newBodyText
       .split("\n")
@@ -472,7 +332,7 @@ export class TemporalDriftView extends ItemView {
 
     const indented = normalized.map((l) => (l.trim().length === 0 ? "" : `      ${l.trimStart()}`));
 
-    lines.splice(entry.lineNo + 1, end - (entry.lineNo + 1), ...indented);
+    lines.splice(current.lineStart + 1, current.lineEnd - current.lineStart, ...indented);
 
     await this.app.vault.modify(this.activeFile, lines.join("\n"));
   }
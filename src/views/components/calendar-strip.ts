@@ -2,11 +2,12 @@
 // Calendar Strip Component
 // ============================================================================
 
-import { addDays, isSameDay, formatDayLong, formatDate } from "../../utils/time";
+import { addDays, isSameDay, formatDayLong, formatDate, getLogicalDate, parseDate } from "../../utils/time";
 
 export interface CalendarStripOptions {
   onDateSelect: (date: Date) => void;
   daysToShow?: number;
+  dayStartsAt?: string; // HH:mm; before this, "today" is still the previous day
 }
 
 export class CalendarStrip {
@@ -19,9 +20,9 @@ export class CalendarStrip {
 
   constructor(containerEl: HTMLElement, options: CalendarStripOptions) {
     this.containerEl = containerEl;
-    this.currentDate = new Date();
-    this.selectedDate = new Date();
     this.options = options;
+    this.currentDate = this.getToday();
+    this.selectedDate = this.currentDate;
   }
 
   /**
@@ -35,6 +36,9 @@ export class CalendarStrip {
     // Remove old event listeners before re-rendering
     this.removeListeners();
 
+    // Re-evaluate "today" in case the strip stayed open across the day boundary
+    this.currentDate = this.getToday();
+
     this.containerEl.empty();
     this.containerEl.addClass("temporal-drift-calendar-strip");
     this.containerEl.setAttribute("role", "listbox");
@@ -114,7 +118,7 @@ export class CalendarStrip {
       if (dayBtn) {
         const dateStr = dayBtn.getAttribute("data-date");
         if (dateStr) {
-          this.selectedDate = new Date(dateStr);
+          this.selectedDate = parseDate(dateStr);
           this.options.onDateSelect(this.selectedDate);
           this.render();
         }
@@ -139,7 +143,7 @@ export class CalendarStrip {
         e.preventDefault();
         const dateStr = dayBtn.getAttribute("data-date");
         if (dateStr) {
-          this.selectedDate = new Date(dateStr);
+          this.selectedDate = parseDate(dateStr);
           this.options.onDateSelect(this.selectedDate);
           this.render();
         }
@@ -148,6 +152,13 @@ export class CalendarStrip {
     this.containerEl.addEventListener("keydown", this.keyHandler);
   }
 
+  /**
+   * Today's date, respecting the configured day start
+   */
+  private getToday(): Date {
+    return getLogicalDate(new Date(), this.options.dayStartsAt ?? "00:00");
+  }
+
   /**
    * Remove event listeners for cleanup
    */
@@ -0,0 +1,157 @@
+// ============================================================================
+// Task Item Component
+//
+// One task row: checkbox, title, source note, status, due date, time spent,
+// timer button and blockers. Shared by the task sidebar and
+// temporal-drift-tasks query blocks.
+// ============================================================================
+
+import { App, Menu, Notice, TFile } from "obsidian";
+import { TaskMeta, TemporalDriftSettings } from "../../types";
+import { TaskIndexService } from "../../services/task-index";
+import { TaskTimer, describeSession, reportTimerError } from "../../services/task-timer";
+import { getDefaultStatus, getDoneStatus, getTaskStatus, isClosedStatus } from "../../utils/task-status";
+import { formatDuration } from "../../utils/time";
+
+export interface TaskItemOptions {
+  onStatusChange?: () => void | Promise<void>;
+  // Shows a start/stop timer button on task notes
+  taskTimer?: TaskTimer;
+}
+
+export class TaskItemRenderer {
+  private app: App;
+  private settings: TemporalDriftSettings;
+  private taskIndexService: TaskIndexService;
+  private options: TaskItemOptions;
+
+  constructor(app: App, settings: TemporalDriftSettings, taskIndexService: TaskIndexService, options: TaskItemOptions = {}) {
+    this.app = app;
+    this.settings = settings;
+    this.taskIndexService = taskIndexService;
+    this.options = options;
+  }
+
+  updateSettings(settings: TemporalDriftSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Render a single task item
+   */
+  render(container: HTMLElement, task: TaskMeta): HTMLElement {
+    const item = container.createDiv({
+      cls: "temporal-drift-task-item",
+      attr: {
+        "data-path": task.path,
+      },
+    });
+
+    // Checkbox
+    const checkbox = item.createEl("input", {
+      cls: "temporal-drift-task-checkbox",
+      attr: { type: "checkbox" },
+    });
+    const statuses = this.settings.taskStatuses;
+    (checkbox as HTMLInputElement).checked = isClosedStatus(statuses, task.status);
+    checkbox.addEventListener("change", async () => {
+      const newStatus = (checkbox as HTMLInputElement).checked ? getDoneStatus(statuses) : getDefaultStatus(statuses);
+      await this.setStatus(task, newStatus.id);
+    });
+
+    // Right-click for the other statuses (in progress, waiting, cancelled, ...)
+    item.addEventListener("contextmenu", (e) => {
+      e.preventDefault();
+      this.showStatusMenu(e, task);
+    });
+
+    // Title
+    const title = item.createSpan({ cls: "temporal-drift-task-title" });
+    title.setText(task.title);
+    title.addEventListener("click", async () => {
+      const file = this.app.vault.getAbstractFileByPath(task.source?.path ?? task.path);
+      if (file instanceof TFile) {
+        // Inline tasks open their note at the task's line
+        const eState = task.source ? { line: task.source.line } : undefined;
+        await this.app.workspace.getLeaf(false).openFile(file, { eState });
+      }
+    });
+
+    // The note an inline task is in
+    if (task.source) {
+      const source = item.createSpan({ cls: "temporal-drift-task-source" });
+      source.setText(task.source.path.split("/").pop()!.replace(/\.md$/, ""));
+    }
+
+    // Status, unless it is the plain default
+    if (task.status !== getDefaultStatus(statuses).id) {
+      const status = item.createSpan({ cls: "temporal-drift-task-status" });
+      status.setText(getTaskStatus(statuses, task.status)?.name ?? task.status);
+    }
+
+    // Due date
+    if (task.due) {
+      const due = item.createSpan({ cls: "temporal-drift-task-due" });
+      due.setText(task.due);
+    }
+
+    // Tracked time and timer (task notes only)
+    if (task.timeSpent) {
+      const spent = item.createSpan({ cls: "temporal-drift-task-time-spent" });
+      spent.setText(formatDuration(task.timeSpent));
+    }
+    const timer = this.options.taskTimer;
+    if (timer && !task.source) {
+      const running = timer.isRunning(task.path);
+      if (running) item.addClass("is-timing");
+      const button = item.createEl("button", {
+        cls: "temporal-drift-task-timer clickable-icon",
+        text: running ? "■" : "▶",
+        attr: { "aria-label": running ? "Stop timer" : "Start timer" },
+      });
+      button.addEventListener("click", async (e) => {
+        e.stopPropagation();
+        try {
+          const session = running ? await timer.stop() : await timer.start(task.path);
+          if (session) new Notice(describeSession(session));
+        } catch (error) {
+          reportTimerError(running ? "stop" : "start", error);
+        }
+      });
+    }
+
+    // Blockers
+    if (this.taskIndexService.isBlocked(task.path)) {
+      item.addClass("is-blocked");
+      const blockers = this.taskIndexService.getBlockers(task.path).map((t) => t.title);
+      const cycle = this.taskIndexService.isInDependencyCycle(task.path);
+      item.createDiv({
+        cls: "temporal-drift-task-blockers",
+        text: cycle ? "Dependency cycle" : `Blocked by ${blockers.join(", ")}`,
+      });
+    }
+
+    return item;
+  }
+
+  /**
+   * Menu of all configured statuses for a task
+   */
+  private showStatusMenu(e: MouseEvent, task: TaskMeta): void {
+    const menu = new Menu();
+    for (const status of this.settings.taskStatuses) {
+      menu.addItem((item) =>
+        item
+          .setTitle(status.name)
+          .setChecked(status.id === task.status)
+          .onClick(() => this.setStatus(task, status.id))
+      );
+    }
+    menu.showAtMouseEvent(e);
+  }
+
+  private async setStatus(task: TaskMeta, status: string): Promise<void> {
+    await this.taskIndexService.toggleStatus(task.path, status);
+    await this.options.onStatusChange?.();
+  }
+}
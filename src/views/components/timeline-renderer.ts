@@ -4,8 +4,11 @@
 
 import { App, TFile, normalizePath } from "obsidian";
 import { TimeEntry, ParsedDay, TemporalDriftSettings, Participant } from "../../types";
-import { formatTime, formatDate } from "../../utils/time";
+import { formatTime, formatTimeString, formatDate, formatDuration, getLogicalDate } from "../../utils/time";
 import { CalendarService, CalendarEvent } from "../../services/calendar";
+import { parseDailyNote } from "../../parser/daily-note-parser";
+import { resolveDailyNotePath } from "../../utils/daily-note-path";
+import { getDefaultStatus, isClosedStatus } from "../../utils/task-status";
 
 export interface TimelineRendererOptions {
   onEntryClick?: (entry: TimeEntry, index: number) => void;
@@ -45,7 +48,7 @@ export class TimelineRenderer {
    * Parse a daily note into structured data
    */
   async parseDay(date: string): Promise<ParsedDay> {
-    const path = normalizePath(`${this.settings.dailyNotesFolder}/${date}.md`);
+    const path = resolveDailyNotePath(this.app, this.settings, date);
     const file = this.app.vault.getAbstractFileByPath(path);
 
     const parsed: ParsedDay = {
@@ -53,6 +56,7 @@ export class TimelineRenderer {
       path,
       mtime: 0,
       entries: [],
+      sections: this.settings.sections.map((c) => ({ ...c, content: "" })),
     };
 
     if (!(file instanceof TFile)) {
@@ -68,88 +72,38 @@ export class TimelineRenderer {
       console.warn("Temporal Drift: Failed to read daily note", path, e);
       return parsed;
     }
-    const lines = content.split("\n");
+    const doc = parseDailyNote(content, this.settings.sections, this.settings.taskStatuses);
 
-    let inThankful = false;
-    let inFocus = false;
-    let thankfulLines: string[] = [];
-    let focusLines: string[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Check for section headers
-      if (line.match(/^##\s*(Thankful|Grateful)/i)) {
-        inThankful = true;
-        inFocus = false;
-        continue;
-      }
-      if (line.match(/^##\s*Focus/i)) {
-        inThankful = false;
-        inFocus = true;
-        continue;
-      }
-      if (line.match(/^##/)) {
-        inThankful = false;
-        inFocus = false;
-        continue;
-      }
-
-      // Collect thankful/focus content
-      if (inThankful && line.trim()) {
-        thankfulLines.push(line.trim());
-        continue;
-      }
-      if (inFocus && line.trim()) {
-        focusLines.push(line.trim());
-        continue;
-      }
-
-      // Parse time entries - no regex lookbehind for iOS compatibility
-      const timeMatch = line.match(/^(\d{2}):(\d{2})\s+(.*)$/);
-      if (timeMatch) {
-        const time = `${timeMatch[1]}:${timeMatch[2]}`;
-        const content = timeMatch[3];
-
-        // Detect task pattern: - [ ] [[Task name]]
-        const taskMatch = content.match(/^-\s*\[\s*([xX ]?)\s*\]\s*\[\[([^\]]+)\]\]/);
-        if (taskMatch) {
-          parsed.entries.push({
-            type: "task",
-            time,
-            content: taskMatch[2],
-            status: taskMatch[1].toLowerCase() === "x" ? "done" : "open",
-          });
-          continue;
-        }
-
-        // Detect event pattern: [[Event ~id]] with [[Person]]
-        const eventMatch = content.match(/^\[\[([^~\]]+)\s*~([^\]]+)\]\]/);
-        if (eventMatch) {
-          parsed.entries.push({
-            type: "event",
-            time,
-            title: eventMatch[1].trim(),
-            eventId: eventMatch[2].trim(),
-          });
-          continue;
-        }
-
-        // Regular note entry
+    for (const entry of doc.entries) {
+      if (entry.type === "task") {
+        const status = entry.status ?? getDefaultStatus(this.settings.taskStatuses).id;
+        parsed.entries.push({
+          type: "task",
+          time: entry.time,
+          content: entry.title,
+          status,
+          closed: isClosedStatus(this.settings.taskStatuses, status),
+          duration: entry.duration,
+        });
+      } else if (entry.type === "event") {
+        parsed.entries.push({
+          type: "event",
+          time: entry.time,
+          title: entry.title,
+          eventId: entry.eventId ?? "",
+          duration: entry.duration,
+        });
+      } else {
         parsed.entries.push({
           type: "note",
-          time,
-          content,
+          time: entry.time,
+          content: entry.head,
+          duration: entry.duration,
         });
       }
     }
 
-    if (thankfulLines.length > 0) {
-      parsed.thankful = thankfulLines.join("\n");
-    }
-    if (focusLines.length > 0) {
-      parsed.focus = focusLines.join("\n");
-    }
+    parsed.sections = doc.daySections;
 
     return parsed;
   }
@@ -169,17 +123,12 @@ export class TimelineRenderer {
 
     this.currentData = parsed;
 
-    // Header sections (Grateful, Focus)
-    if (this.settings.showThankful && parsed.thankful) {
-      this.renderSection("Grateful for", parsed.thankful);
-    }
-
-    if (this.settings.showFocus && parsed.focus) {
-      this.renderSection("Focus", parsed.focus);
-    }
+    // Header sections (configured "before" sections)
+    const before = parsed.sections.filter((s) => s.position === "before" && s.content);
+    before.forEach((s) => this.renderSection(s.heading, s.content));
 
     // Divider
-    if ((parsed.thankful || parsed.focus) && parsed.entries.length > 0) {
+    if (before.length > 0 && parsed.entries.length > 0) {
       this.containerEl.createDiv({ cls: "temporal-drift-divider" });
     }
 
@@ -197,17 +146,24 @@ export class TimelineRenderer {
       emptyMsg.setText("No entries yet. Press Enter to add one.");
     } else {
       const now = new Date();
-      const currentTime = formatTime(now);
-      const isToday = date === formatDate(now);
+      const currentTime = formatTime(now, "HH:mm", this.settings.dayStartsAt);
+      const isToday = date === formatDate(getLogicalDate(now, this.settings.dayStartsAt));
 
       parsed.entries.forEach((entry, index) => {
         this.renderEntry(entriesContainer, entry, index, isToday && entry.time === currentTime);
       });
     }
+
+    // Footer sections (configured "after" sections)
+    const after = parsed.sections.filter((s) => s.position === "after" && s.content);
+    if (after.length > 0) {
+      this.containerEl.createDiv({ cls: "temporal-drift-divider" });
+      after.forEach((s) => this.renderSection(s.heading, s.content));
+    }
   }
 
   /**
-   * Render a section (Thankful, Focus)
+   * Render a configured section
    */
   private renderSection(title: string, content: string): void {
     const section = this.containerEl.createDiv({ cls: "temporal-drift-section" });
@@ -239,7 +195,7 @@ export class TimelineRenderer {
 
     // Time column
     const timeEl = entryEl.createDiv({ cls: "temporal-drift-time" });
-    timeEl.setText(entry.time);
+    timeEl.setText(formatTimeString(entry.time, this.settings.timeFormat));
 
     // Content column
     const contentEl = entryEl.createDiv({ cls: "temporal-drift-content" });
@@ -256,6 +212,11 @@ export class TimelineRenderer {
         break;
     }
 
+    // Duration column
+    if (entry.duration) {
+      entryEl.createSpan({ cls: "temporal-drift-duration", text: formatDuration(entry.duration) });
+    }
+
     // Click handler
     entryEl.addEventListener("click", () => {
       this.options.onEntryClick?.(entry, index);
@@ -301,12 +262,13 @@ export class TimelineRenderer {
         type: "checkbox",
       },
     });
-    (checkbox as HTMLInputElement).checked = entry.status === "done";
+    (checkbox as HTMLInputElement).checked = entry.closed;
+    container.setAttr("data-status", entry.status);
 
     const title = container.createSpan({ cls: "temporal-drift-task-title" });
     title.setText(entry.content);
 
-    if (entry.status === "done") {
+    if (entry.closed) {
       container.addClass("is-done");
     }
   }
@@ -418,19 +380,23 @@ email: ${participant.email}
   private mergeCalendarEvents(parsed: ParsedDay, events: CalendarEvent[]): void {
     for (const event of events) {
       const time = formatTime(event.start);
+      const duration = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
 
       // Check if event already exists in entries (by matching time and title)
-      const exists = parsed.entries.some(
+      const existing = parsed.entries.find(
         (e) => e.type === "event" && e.time === time && e.title === event.title
       );
 
-      if (!exists) {
+      if (existing) {
+        if (duration > 0) existing.duration = duration;
+      } else {
         parsed.entries.push({
           type: "event",
           time,
           title: event.title,
           eventId: event.id,
           participants: event.participants,
+          duration: duration > 0 ? duration : undefined,
         });
       }
     }
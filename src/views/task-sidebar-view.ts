@@ -2,26 +2,37 @@
 // Task Sidebar View - Now/Next/Later Priority View
 // ============================================================================
 
-import { App, ItemView, WorkspaceLeaf, TFile } from "obsidian";
+import { App, ItemView, WorkspaceLeaf } from "obsidian";
 import { TemporalDriftSettings, SettingsAware, TaskMeta } from "../types";
 import { TaskIndexService } from "../services/task-index";
+import { TaskTimer } from "../services/task-timer";
+import { TaskItemRenderer } from "./components/task-item";
+import { TaskCaptureModal } from "../modals/task-capture-modal";
 
 export const VIEW_TYPE_TASK_SIDEBAR = "temporal-drift-task-sidebar";
 
 export class TaskSidebarView extends ItemView implements SettingsAware {
   private settings: TemporalDriftSettings;
   private taskIndexService: TaskIndexService;
+  private taskTimer: TaskTimer | null;
+  private taskItems: TaskItemRenderer;
   private draggedItem: HTMLElement | null = null;
 
   constructor(
     leaf: WorkspaceLeaf,
     app: App,
     settings: TemporalDriftSettings,
-    taskIndexService: TaskIndexService
+    taskIndexService: TaskIndexService,
+    taskTimer: TaskTimer | null = null
   ) {
     super(leaf);
     this.settings = settings;
     this.taskIndexService = taskIndexService;
+    this.taskTimer = taskTimer;
+    this.taskItems = new TaskItemRenderer(app, settings, taskIndexService, {
+      onStatusChange: () => this.refresh(),
+      taskTimer: taskTimer ?? undefined,
+    });
   }
 
   getViewType(): string {
@@ -38,6 +49,7 @@ export class TaskSidebarView extends ItemView implements SettingsAware {
 
   updateSettings(settings: TemporalDriftSettings): void {
     this.settings = settings;
+    this.taskItems.updateSettings(settings);
     this.refresh();
   }
 
@@ -47,14 +59,9 @@ export class TaskSidebarView extends ItemView implements SettingsAware {
 
     await this.render();
 
-    // Listen for task changes
-    this.registerEvent(
-      this.app.vault.on("modify", async (file) => {
-        if (file instanceof TFile && file.path.startsWith(this.settings.tasksFolder)) {
-          await this.refresh();
-        }
-      })
-    );
+    // Re-render whenever the task index changes (including once it has loaded)
+    this.registerEvent(this.taskIndexService.on("changed", () => this.refresh()));
+    if (this.taskTimer) this.registerEvent(this.taskTimer.on("changed", () => this.refresh()));
   }
 
   async onClose(): Promise<void> {
@@ -88,6 +95,7 @@ export class TaskSidebarView extends ItemView implements SettingsAware {
     this.renderSection("now", "Now", tasks.now || []);
     this.renderSection("next", "Next", tasks.next || []);
     this.renderSection("later", "Later", tasks.later || []);
+    this.renderBlockedSection();
 
     // Add task button
     const addBtn = this.contentEl.createEl("button", {
@@ -139,46 +147,32 @@ export class TaskSidebarView extends ItemView implements SettingsAware {
   }
 
   /**
-   * Render a single task item
+   * Tasks waiting for their prerequisites, dimmed and listed with their blockers.
+   * They return to their priority group once nothing blocks them.
    */
-  private renderTaskItem(container: HTMLElement, task: TaskMeta): void {
-    const item = container.createDiv({
-      cls: "temporal-drift-task-item",
-      attr: {
-        draggable: "true",
-        "data-path": task.path,
-      },
-    });
+  private renderBlockedSection(): void {
+    const tasks = this.taskIndexService.getBlockedTasks();
+    if (tasks.length === 0) return;
 
-    // Checkbox
-    const checkbox = item.createEl("input", {
-      cls: "temporal-drift-task-checkbox",
-      attr: { type: "checkbox" },
-    });
-    (checkbox as HTMLInputElement).checked = task.status === "done";
-    checkbox.addEventListener("change", async () => {
-      const newStatus = (checkbox as HTMLInputElement).checked ? "done" : "open";
-      await this.taskIndexService.toggleStatus(task.path, newStatus);
-      await this.refresh();
-    });
-
-    // Title
-    const title = item.createSpan({ cls: "temporal-drift-task-title" });
-    title.setText(task.title);
-    title.addEventListener("click", async () => {
-      const file = this.app.vault.getAbstractFileByPath(task.path);
-      if (file instanceof TFile) {
-        await this.app.workspace.getLeaf(false).openFile(file);
-      }
-    });
+    const section = this.contentEl.createDiv({ cls: "temporal-drift-task-section is-blocked" });
+    const sectionHeader = section.createDiv({ cls: "temporal-drift-section-header" });
+    sectionHeader.createSpan({ text: "Blocked", cls: "temporal-drift-section-title" });
+    sectionHeader.createSpan({ text: `${tasks.length}`, cls: "temporal-drift-section-count" });
 
-    // Due date
-    if (task.due) {
-      const due = item.createSpan({ cls: "temporal-drift-task-due" });
-      due.setText(task.due);
+    const taskList = section.createDiv({ cls: "temporal-drift-task-list" });
+    for (const task of tasks) {
+      this.renderTaskItem(taskList, task);
     }
+  }
+
+  /**
+   * Render a single task item. Inline tasks have no priority to drag between.
+   */
+  private renderTaskItem(container: HTMLElement, task: TaskMeta): void {
+    const item = this.taskItems.render(container, task);
+    if (task.source) return;
 
-    // Setup drag
+    item.setAttr("draggable", "true");
     this.setupDragItem(item, task);
   }
 
@@ -235,14 +229,10 @@ export class TaskSidebarView extends ItemView implements SettingsAware {
   }
 
   /**
-   * Prompt for new task
+   * Prompt for new task (the sidebar refreshes when the index picks it up)
    */
-  private async promptNewTask(): Promise<void> {
-    const title = prompt("Task name:");
-    if (title) {
-      await this.taskIndexService.createTask(title);
-      await this.refresh();
-    }
+  private promptNewTask(): void {
+    new TaskCaptureModal(this.app, this.taskIndexService, this.settings).open();
   }
 
   /**
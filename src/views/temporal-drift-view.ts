@@ -7,8 +7,7 @@ import { TemporalDriftSettings, SettingsAware, TimeEntry } from "../types";
 import { CalendarStrip } from "./components/calendar-strip";
 import { TimelineRenderer } from "./components/timeline-renderer";
 import { FloatingActionButton } from "./components/fab";
-import { formatTime } from "../utils/time";
-import { formatDate } from "../utils/time";
+import { formatDate, getLogicalDate } from "../utils/time";
 import { DailyNoteService } from "../services/daily-note";
 import { CalendarService } from "../services/calendar";
 
@@ -21,7 +20,7 @@ export class TemporalDriftView extends ItemView implements SettingsAware {
   private calendarStrip: CalendarStrip | null = null;
   private timelineRenderer: TimelineRenderer | null = null;
   private fab: FloatingActionButton | null = null;
-  private selectedDate: Date = new Date();
+  private selectedDate: Date;
 
   constructor(
     leaf: WorkspaceLeaf,
@@ -34,6 +33,7 @@ export class TemporalDriftView extends ItemView implements SettingsAware {
     this.settings = settings;
     this.dailyNoteService = dailyNoteService;
     this.calendarService = calendarService;
+    this.selectedDate = getLogicalDate(new Date(), settings.dayStartsAt);
   }
 
   getViewType(): string {
@@ -72,6 +72,7 @@ export class TemporalDriftView extends ItemView implements SettingsAware {
     this.calendarStrip = new CalendarStrip(calendarContainer, {
       onDateSelect: (date) => this.onDateSelected(date),
       daysToShow: this.settings.calendarDays,
+      dayStartsAt: this.settings.dayStartsAt,
     });
     this.calendarStrip.render(this.selectedDate);
 
@@ -121,12 +122,9 @@ export class TemporalDriftView extends ItemView implements SettingsAware {
    * Quick capture - add timestamped entry to today's note
    */
   private async quickCapture(): Promise<void> {
-    const today = formatDate(new Date());
-    const time = formatTime(new Date());
-
-    // Append entry and open note
-    await this.dailyNoteService.appendEntry(today, time, "");
-    await this.dailyNoteService.openToday();
+    // Insert entry and open note with the cursor on it
+    const line = await this.dailyNoteService.addCurrentEntry("");
+    await this.dailyNoteService.openDailyNote(this.dailyNoteService.getToday(), line);
   }
 
   /**
@@ -168,7 +166,7 @@ export class TemporalDriftView extends ItemView implements SettingsAware {
    * Navigate to today
    */
   async goToToday(): Promise<void> {
-    this.selectedDate = new Date();
+    this.selectedDate = getLogicalDate(new Date(), this.settings.dayStartsAt);
     this.calendarStrip?.setSelectedDate(this.selectedDate);
     await this.renderTimeline();
   }